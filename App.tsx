@@ -1,45 +1,507 @@
-import React, { useState } from 'react';
-import { Gear, createGearGeometry } from './components/Gear';
+import React, { SetStateAction, useEffect, useMemo, useState } from 'react';
+import { Gear } from './components/Gear';
+import {
+  createBevelGeometry, createCarrierGeometry, createCarrierProfile, createGearGeometry, createGearProfile,
+  createWormGeometry, createWormWheelGeometry, getHubWarnings,
+} from './core/gearGeometry';
 import { Configurator } from './components/Configurator';
-import { exportGLB } from './components/gltfExporter';
+import { ExportNode, exportSceneGLB } from './core/gltfExporter';
+import { exportSceneSTL } from './core/stlExporter';
+import { exportDXF, exportSVG } from './core/profileExporter';
+import { ExportPanel, ExportFormat, EXPORT_EXTENSIONS, MeshCheck } from './components/ExportPanel';
+import { MeshReport, validateMesh } from './core/manifold';
+import { importGLB } from './core/gltfImporter';
+import { ImportPanel, ImportStatus } from './components/ImportPanel';
+import { PresetPanel } from './components/PresetPanel';
+import {
+  Configuration, DEFAULT_CONFIGURATION, Design, Preset, configurationFromHash, configurationToHash,
+  loadStoredPresets, mergePresets, parsePresets, serializePresets, storePresets,
+} from './components/configuration';
+import { useHistory } from './components/history';
+import {
+  GearParams, InputMode, LengthUnit, RadiusSet, hasHub, isChainOrBelt, toRadiusSet, fromRadiusSet,
+} from './core/gearParams';
+import { ChainSize } from './core/sprocket';
+import { describeAllowances } from './core/allowance';
+import { getToothRadii } from './core/toothProfile';
+import { PairPanel } from './components/PairPanel';
+import { MassPanel } from './components/MassPanel';
+import { computeMassProperties } from './core/massProperties';
+import { checkDesignRules } from './core/designRules';
+import { StrengthPanel } from './components/StrengthPanel';
+import { LoadParams, analyzeStrength } from './core/strength';
+import { MateParams, analyzePair, createMateParams, placePair } from './core/gearPair';
+import { COMPARISON_MATERIAL, SceneMesh, ViewMode } from './components/scene';
+import { Geometry } from './core/geometry';
+import { CARRIER_MATERIAL, MATERIAL_PRESETS } from './core/materials';
+import { TrainPanel } from './components/TrainPanel';
+import { PlanetaryPanel } from './components/PlanetaryPanel';
+import { PlanetaryParams, analyzePlanetary } from './core/planetary';
+import { WORM_MATERIAL, WormParams, analyzeWorm } from './core/worm';
+import { WormPanel } from './components/WormPanel';
+import { BevelParams, analyzeBevel } from './core/bevel';
+import { BevelPanel } from './components/BevelPanel';
+import { TrainGear, TrainLink, analyzeTrain, createTrainGear, getGearName } from './core/gearTrain';
+
+const EXPORT_FILE_NAMES: Record<ViewMode, string> = {
+  single: 'gear',
+  pair: 'gear-pair',
+  train: 'gear-train',
+  planetary: 'planetary-gearset',
+  worm: 'worm-drive',
+  bevel: 'bevel-pair',
+};
+
+// Gap between the configured gear and an imported mesh shown beside it, in mm.
+const COMPARISON_GAP = 5;
+
+const xRange = (geometry: Geometry) => {
+  let min = Infinity, max = -Infinity;
+  for (let i = 0; i < geometry.vertices.length; i += 3) {
+    min = Math.min(min, geometry.vertices[i]);
+    max = Math.max(max, geometry.vertices[i]);
+  }
+  return [min, max];
+};
+
+// Mesh checks are kept per geometry, which is itself kept per params object.
+const meshReportCache = new WeakMap<Geometry, MeshReport>();
+
+const PRESET_FILE_NAME = 'gear-presets.json';
+
+// The fit allowances a mesh was built with, for formats that cannot carry its parameters.
+const allowanceNotes = (source: SceneMesh['source']): string | undefined => {
+  const gear = source && 'gear' in source ? source.gear : source && 'wormWheel' in source ? source.wormWheel.params : null;
+  return (gear && describeAllowances(gear)) ?? undefined;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Text fields keep the browser's own undo for what is typed into them.
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement
+  || (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'file'].includes(target.type));
 
 const App: React.FC = () => {
-  const [gearParams, setGearParams] = useState({
-    innerRadius: 0.5,
-    outerRadius: 1.0,
-    width: 0.3,
-    teeth: 12,
-    toothDepth: 0.2,
+  // A link with a configuration in it opens that configuration.
+  const [initial] = useState(() => configurationFromHash(window.location.hash) ?? DEFAULT_CONFIGURATION);
+  const design = useHistory<Design>(() => {
+    const { train, mate, planetary, worm, bevel, load, inputRpm } = initial;
+    return { train, mate, planetary, worm, bevel, load, inputRpm };
   });
+  const { train, mate, planetary, worm, bevel, load, inputRpm } = design.present;
+  const [selection, setSelectedIndex] = useState(initial.selectedIndex);
+  const [inputMode, setInputMode] = useState<InputMode>(initial.inputMode);
+  const [viewMode, setViewMode] = useState<ViewMode>(initial.viewMode);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('glb');
+  const [exportUnit, setExportUnit] = useState<LengthUnit>('mm');
+  const [comparison, setComparison] = useState<SceneMesh[] | null>(null);
+  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const [presets, setPresets] = useState<Preset[]>(loadStoredPresets);
+  const [presetStatus, setPresetStatus] = useState<ImportStatus | null>(null);
 
-  const handleParamChange = (param: keyof typeof gearParams, value: number) => {
-    if (param === 'innerRadius' && value >= gearParams.outerRadius) {
-      return;
+  // Every change to the design is a step in the undo history; changes in the
+  // same group, such as one slider being dragged, merge into one step.
+  const setDesign = <K extends keyof Design>(key: K, action: SetStateAction<Design[K]>, group?: string) => {
+    design.update(prev => ({
+      ...prev,
+      [key]: typeof action === 'function' ? (action as (previous: Design[K]) => Design[K])(prev[key]) : action,
+    }), group);
+  };
+  const setTrain = (action: SetStateAction<TrainGear[]>, group?: string) => setDesign('train', action, group);
+  const setMate = (action: SetStateAction<MateParams>, group?: string) => setDesign('mate', action, group);
+  const setPlanetary = (action: SetStateAction<PlanetaryParams>, group?: string) => setDesign('planetary', action, group);
+  const setWorm = (action: SetStateAction<WormParams>, group?: string) => setDesign('worm', action, group);
+  const setBevel = (action: SetStateAction<BevelParams>, group?: string) => setDesign('bevel', action, group);
+  const setLoad = (action: SetStateAction<LoadParams>, group?: string) => setDesign('load', action, group);
+  const setInputRpm = (inputRpm: number) => setDesign('inputRpm', inputRpm, 'inputRpm');
+
+  // Undoing the addition of a gear can leave the selection past the end of the train.
+  const selectedIndex = Math.min(selection, train.length - 1);
+
+  const configuration = useMemo(
+    (): Configuration => ({ ...design.present, viewMode, inputMode, selectedIndex }),
+    [design.present, viewMode, inputMode, selectedIndex],
+  );
+  const shareHash = useMemo(() => configurationToHash(configuration), [configuration]);
+
+  // The address bar always holds a link to what is on screen. Replacing the
+  // entry rather than pushing one keeps the back button out of it.
+  useEffect(() => {
+    window.history.replaceState(null, '', shareHash);
+  }, [shareHash]);
+
+  // A link pasted into the address bar of an open modeller only changes the hash.
+  useEffect(() => {
+    const handleHashChange = () => {
+      const linked = configurationFromHash(window.location.hash);
+      if (linked) applyConfiguration(linked);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) design.undo();
+      else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) design.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [design.undo, design.redo]);
+
+  // The Configurator always edits the selected gear of the train.
+  const gearParams = train[selectedIndex].params;
+  const setGearParams = (params: GearParams, group?: string) => {
+    setTrain(prev => prev.map((gear, index) => (index === selectedIndex ? { ...gear, params } : gear)), group);
+  };
+
+  const trainAnalysis = useMemo(() => analyzeTrain(train), [train]);
+  const drivenParams = useMemo(() => createMateParams(gearParams, mate), [gearParams, mate]);
+  const pairAnalysis = useMemo(
+    () => analyzePair(gearParams, drivenParams, mate.centerDistanceAllowance),
+    [gearParams, drivenParams, mate.centerDistanceAllowance]
+  );
+  // Mass properties of the gear being configured, from the same mesh the viewer draws.
+  const massProperties = useMemo(
+    () => computeMassProperties(createGearGeometry(gearParams), MATERIAL_PRESETS[gearParams.material].density),
+    [gearParams]
+  );
+  const strengthAnalysis = useMemo(() => analyzeStrength(gearParams, drivenParams, load), [gearParams, drivenParams, load]);
+  const ruleViolations = useMemo(() => checkDesignRules(gearParams), [gearParams]);
+  // Tooth strength is rated for meshing gears; a sprocket's or pulley's is the chain's or belt's.
+  const rateStrength = !isChainOrBelt(gearParams.gearType);
+  const configWarnings = useMemo(
+    () => [...getHubWarnings(gearParams), ...(rateStrength ? strengthAnalysis.warnings : [])],
+    [gearParams, strengthAnalysis, rateStrength],
+  );
+  // The planetary set is cut with the tooth system of the gear being configured.
+  const planetaryAnalysis = useMemo(() => analyzePlanetary(gearParams, planetary), [gearParams, planetary]);
+  // So is the worm wheel, which also takes the gear's hub.
+  const wormAnalysis = useMemo(() => analyzeWorm(gearParams, worm), [gearParams, worm]);
+  // And the bevel pair, whose module is the gear's at the heel.
+  const bevelAnalysis = useMemo(() => analyzeBevel(gearParams, bevel), [gearParams, bevel]);
+
+  const meshes = useMemo((): SceneMesh[] => {
+    if (viewMode === 'train') {
+      return trainAnalysis.placed.map(({ gear, name, position, phase, speed }, index) => ({
+        name,
+        geometry: createGearGeometry(gear.params),
+        profile: createGearProfile(gear.params),
+        source: { gear: gear.params },
+        position,
+        phase,
+        speed,
+        material: MATERIAL_PRESETS[gear.params.material],
+        selected: index === selectedIndex,
+      }));
+    }
+    if (viewMode === 'planetary') {
+      const { members, carrier, carrierSpeed } = planetaryAnalysis;
+      const gears = members.map(({ name, params, position, phase, speed, orbit }): SceneMesh => ({
+        name,
+        geometry: createGearGeometry(params),
+        profile: createGearProfile(params),
+        source: { gear: params },
+        position,
+        phase,
+        speed,
+        orbit,
+        material: MATERIAL_PRESETS[params.material],
+      }));
+      return [...gears, {
+        name: 'Carrier',
+        geometry: createCarrierGeometry(carrier),
+        profile: createCarrierProfile(carrier),
+        source: { carrier },
+        position: [0, 0, carrier.z],
+        phase: 0,
+        speed: carrierSpeed,
+        material: MATERIAL_PRESETS[CARRIER_MATERIAL],
+      }];
+    }
+    if (viewMode === 'worm') {
+      const { worm: wormSpec, wheel, wormPosition, wormTilt, wormPhase, wheelPhase, wheelSpeed } = wormAnalysis;
+      return [{
+        name: 'Worm',
+        geometry: createWormGeometry(wormSpec),
+        source: { worm: wormSpec },
+        position: wormPosition,
+        tilt: wormTilt,
+        phase: wormPhase,
+        speed: 1,
+        material: MATERIAL_PRESETS[WORM_MATERIAL],
+      }, {
+        name: 'Worm Wheel',
+        geometry: createWormWheelGeometry(wheel),
+        profile: createGearProfile(wheel.params),
+        source: { wormWheel: wheel },
+        position: [0, 0, 0],
+        phase: wheelPhase,
+        speed: wheelSpeed,
+        material: MATERIAL_PRESETS[wheel.params.material],
+      }];
+    }
+    if (viewMode === 'bevel') {
+      const { pinion, gear, pinionPosition, gearPosition, gearTilt, pinionPhase, gearPhase, gearSpeed } = bevelAnalysis;
+      const material = MATERIAL_PRESETS[gearParams.material];
+      return [{
+        name: 'Bevel Pinion',
+        geometry: createBevelGeometry(pinion),
+        source: { bevel: pinion },
+        position: pinionPosition,
+        phase: pinionPhase,
+        speed: 1,
+        material,
+      }, {
+        name: 'Bevel Gear',
+        geometry: createBevelGeometry(gear),
+        source: { bevel: gear },
+        position: gearPosition,
+        tilt: gearTilt,
+        phase: gearPhase,
+        speed: gearSpeed,
+        material,
+      }];
+    }
+    const driver: SceneMesh = {
+      name: viewMode === 'single' ? getGearName(selectedIndex) : 'Driver',
+      geometry: createGearGeometry(gearParams),
+      profile: createGearProfile(gearParams),
+      source: { gear: gearParams },
+      position: [0, 0, 0],
+      phase: 0,
+      speed: 1,
+      material: MATERIAL_PRESETS[gearParams.material],
+    };
+    if (viewMode === 'single') {
+      return [driver];
+    }
+    const [driverMotion, drivenMotion] = placePair(gearParams, drivenParams, pairAnalysis);
+    const driven: SceneMesh = {
+      name: 'Driven',
+      geometry: createGearGeometry(drivenParams),
+      profile: createGearProfile(drivenParams),
+      source: { gear: drivenParams },
+      ...drivenMotion,
+      material: MATERIAL_PRESETS[drivenParams.material],
+    };
+    return [{ ...driver, ...driverMotion }, driven];
+  }, [gearParams, drivenParams, pairAnalysis, trainAnalysis, planetaryAnalysis, wormAnalysis, bevelAnalysis, selectedIndex, viewMode]);
+
+  // Copies of one part, such as planets, share a geometry and so a report.
+  const meshChecks = useMemo((): MeshCheck[] => meshes.map(({ name, geometry }) => {
+    let report = meshReportCache.get(geometry);
+    if (!report) {
+      report = validateMesh(geometry);
+      meshReportCache.set(geometry, report);
     }
-    if (param === 'outerRadius' && value <= gearParams.innerRadius) {
+    return { name, report };
+  }), [meshes]);
+
+  // The viewer also shows an imported mesh, set beside the gear rather than
+  // on top of it; exports leave it out.
+  const viewedMeshes = useMemo((): SceneMesh[] => {
+    if (!comparison || viewMode !== 'single') return meshes;
+    const radius = Math.max(...meshes.map(mesh => Math.max(...xRange(mesh.geometry).map(Math.abs))));
+    const left = Math.min(...comparison.map(mesh => xRange(mesh.geometry)[0]));
+    const offset = radius + COMPARISON_GAP - left;
+    return [...meshes, ...comparison.map((mesh): SceneMesh => ({ ...mesh, position: [offset, 0, 0] }))];
+  }, [meshes, comparison, viewMode]);
+
+  // A pinion on a rack swings back and forth so it stays on the rack's teeth.
+  const driveRange = useMemo(() => {
+    if (viewMode !== 'pair' || gearParams.gearType !== 'rack') return undefined;
+    const { pitchRadius, tipRadius } = getToothRadii(drivenParams);
+    return Math.max(0.5, (gearParams.rackLength / 2 - tipRadius) / pitchRadius);
+  }, [viewMode, gearParams, drivenParams]);
+
+  // The bore of a gear with a hub has to stay inside the root circle, whichever input moved.
+  const applyParams = (next: GearParams, group: string) => {
+    if (hasHub(next.gearType) && next.innerRadius >= toRadiusSet(next).outerRadius) {
       return;
     }
-    setGearParams(prev => ({ ...prev, [param]: value }));
+    setGearParams(next, `${selectedIndex}.${group}`);
+  };
+
+  const handleParamChange = <K extends keyof GearParams>(param: K, value: GearParams[K]) => {
+    applyParams({ ...gearParams, [param]: value }, param);
+  };
+
+  const handleRadiusChange = (param: keyof RadiusSet, value: number) => {
+    applyParams(fromRadiusSet({ ...toRadiusSet(gearParams), [param]: value }, gearParams), param);
   };
   
+  const handleChainSizeChange = (size: ChainSize) => {
+    applyParams({ ...gearParams, chainPitch: size.pitch, rollerDiameter: size.rollerDiameter }, 'chainSize');
+  };
+
+  const handleMateChange = (param: keyof MateParams, value: number) => {
+    setMate(prev => ({ ...prev, [param]: value }), `mate.${param}`);
+  };
+
+  const handleLoadChange = (param: 'torque' | 'power' | 'rpm', value: number) => {
+    setLoad(prev => ({ ...prev, [param]: value }), `load.${param}`);
+  };
+
+  const handlePlanetaryChange = (param: keyof PlanetaryParams, value: number) => {
+    setPlanetary(prev => ({ ...prev, [param]: value }), `planetary.${param}`);
+  };
+
+  const handleWormChange = (param: keyof WormParams, value: number) => {
+    setWorm(prev => ({ ...prev, [param]: value }), `worm.${param}`);
+  };
+
+  const handleBevelChange = (param: keyof BevelParams, value: number) => {
+    setBevel(prev => ({ ...prev, [param]: value }), `bevel.${param}`);
+  };
+
+  // New gears copy the tooth system of the last gear so they mesh straight away.
+  const handleAddGear = (link: Exclude<TrainLink, 'input'>) => {
+    const last = train[train.length - 1].params;
+    const teeth = link === 'compound' ? Math.max(12, Math.round(last.teeth / 2)) : 20;
+    const params = createMateParams(last, { teeth, profileShift: 0, centerDistanceAllowance: 0 });
+    setTrain(prev => [...prev, createTrainGear(params, link, link === 'mesh' ? -60 : 0)]);
+    setSelectedIndex(train.length);
+  };
+
+  const handleRemoveGear = (index: number) => {
+    setTrain(prev => prev.filter((_, i) => i !== index));
+    setSelectedIndex(prev => (prev >= index ? Math.max(0, prev - 1) : prev));
+  };
+
+  const handleMeshAngleChange = (meshAngle: number) => {
+    setTrain(prev => prev.map((gear, index) => (index === selectedIndex ? { ...gear, meshAngle } : gear)), `${selectedIndex}.meshAngle`);
+  };
+
+  // Restores the parameters of the first gear in the file; a file without any
+  // is shown beside the current gear instead.
+  const handleImport = async (file: File) => {
+    try {
+      const { meshes: imported, gears } = importGLB(await file.arrayBuffer());
+      if (gears.length > 0) {
+        const [{ name, params }] = gears;
+        setGearParams(params);
+        setViewMode('single');
+        setComparison(null);
+        setImportStatus({
+          message: gears.length > 1
+            ? `Restored ${name}, the first of ${gears.length} gears in ${file.name}.`
+            : `Restored ${name} from ${file.name}.`,
+          error: false,
+        });
+        return;
+      }
+      setComparison(imported.map(({ name, geometry }) => ({
+        name, geometry, position: [0, 0, 0], phase: 0, speed: 0, material: COMPARISON_MATERIAL,
+      })));
+      setViewMode('single');
+      setImportStatus({ message: `${file.name} has no gear parameters; its mesh is shown beside the gear for comparison.`, error: false });
+    } catch (error) {
+      setImportStatus({ message: error instanceof Error ? error.message : String(error), error: true });
+    }
+  };
+
   const handleDownload = () => {
-    const geometry = createGearGeometry(
-      gearParams.innerRadius,
-      gearParams.outerRadius,
-      gearParams.width,
-      Math.round(gearParams.teeth),
-      gearParams.toothDepth
-    );
-
-    const blob = exportGLB(geometry);
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'gear.glb';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    // Every mesh on screen becomes its own named node, posed as it is at rest
+    // and carrying its material and the parameters that made it.
+    const nodes: ExportNode[] = meshes.map(({ name, geometry, position, phase, tilt, material, source }) => ({
+      name,
+      geometry,
+      translation: position,
+      angle: phase,
+      tilt,
+      material,
+      extras: source,
+      notes: allowanceNotes(source),
+    }));
+    // Flat formats take each part's profile instead of its mesh.
+    const profiles = meshes.flatMap(({ name, profile, source }) => (profile ? [{ name, profile, notes: allowanceNotes(source) }] : []));
+    const fileName = EXPORT_FILE_NAMES[viewMode];
+    const file = exportFormat === 'glb' ? exportSceneGLB(nodes)
+      : exportFormat === 'dxf' ? exportDXF(profiles, exportUnit)
+      : exportFormat === 'svg' ? exportSVG(profiles, exportUnit)
+      : exportSceneSTL(nodes, exportFormat === 'stl-binary' ? 'binary' : 'ascii', exportUnit, fileName);
+    downloadBlob(new Blob([file.data], { type: file.mimeType }), `${fileName}.${EXPORT_EXTENSIONS[exportFormat]}`);
+  };
+
+  // Loading a configuration is itself a step that can be undone.
+  const applyConfiguration = (next: Configuration) => {
+    const { viewMode: nextViewMode, inputMode: nextInputMode, selectedIndex: nextIndex, ...nextDesign } = next;
+    design.update(() => nextDesign);
+    setViewMode(nextViewMode);
+    setInputMode(nextInputMode);
+    setSelectedIndex(nextIndex);
+    setComparison(null);
+  };
+
+  const updatePresets = (next: Preset[]) => {
+    setPresets(next);
+    storePresets(next);
+  };
+
+  const handleSavePreset = (name: string) => {
+    updatePresets(mergePresets(presets, [{ name, savedAt: new Date().toISOString(), configuration }]));
+    setPresetStatus({ message: `Saved ${name}.`, error: false });
+  };
+
+  const handleLoadPreset = (preset: Preset) => {
+    applyConfiguration(preset.configuration);
+    setPresetStatus({ message: `Loaded ${preset.name}.`, error: false });
+  };
+
+  const handleDeletePreset = (name: string) => {
+    updatePresets(presets.filter(preset => preset.name !== name));
+    setPresetStatus(null);
+  };
+
+  // Takes a preset library, or a single configuration named after its file.
+  const handleImportPresets = async (file: File) => {
+    try {
+      let value: unknown;
+      try {
+        value = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON file.`);
+      }
+      const imported = parsePresets(value, file.name.replace(/\.json$/i, ''));
+      if (imported.length === 0) throw new Error(`${file.name} has no presets that can be read.`);
+      updatePresets(mergePresets(presets, imported));
+      setPresetStatus({
+        message: `Imported ${imported.length === 1 ? imported[0].name : `${imported.length} presets`} from ${file.name}.`,
+        error: false,
+      });
+    } catch (error) {
+      setPresetStatus({ message: error instanceof Error ? error.message : String(error), error: true });
+    }
+  };
+
+  const handleExportPresets = () => {
+    const json = JSON.stringify(serializePresets(presets), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), PRESET_FILE_NAME);
+  };
+
+  const handleCopyLink = async () => {
+    const { origin, pathname, search } = window.location;
+    try {
+      await navigator.clipboard.writeText(`${origin}${pathname}${search}${shareHash}`);
+      setPresetStatus({ message: 'Copied a link to this configuration.', error: false });
+    } catch {
+      setPresetStatus({ message: 'The clipboard is unavailable; copy the link from the address bar.', error: true });
+    }
   };
 
 
@@ -57,21 +519,125 @@ const App: React.FC = () => {
               A WebGL tool for procedural generation of spur gear geometry.
             </p>
           </div>
-          <Configurator params={gearParams} onParamChange={handleParamChange} />
+          <Configurator
+            params={gearParams}
+            inputMode={inputMode}
+            onInputModeChange={setInputMode}
+            onParamChange={handleParamChange}
+            onRadiusChange={handleRadiusChange}
+            onChainSizeChange={handleChainSizeChange}
+            violations={ruleViolations}
+            warnings={configWarnings}
+          />
+          <div className="mt-6">
+            <MassPanel
+              material={MATERIAL_PRESETS[gearParams.material]}
+              properties={massProperties}
+              showInertia={gearParams.gearType !== 'rack'}
+            />
+          </div>
+          {rateStrength && (
+            <div className="mt-6">
+              <StrengthPanel
+                load={load}
+                onLoadModeChange={mode => setLoad(prev => ({ ...prev, mode }))}
+                onLoadChange={handleLoadChange}
+                material={gearParams.material}
+                isRack={gearParams.gearType === 'rack'}
+                analysis={strengthAnalysis}
+              />
+            </div>
+          )}
+          <div className="mt-6">
+            <PairPanel
+              viewMode={viewMode}
+              onViewModeChange={setViewMode}
+              mate={mate}
+              onMateChange={handleMateChange}
+              analysis={pairAnalysis}
+            />
+          </div>
+          {viewMode === 'train' && (
+            <div className="mt-6">
+              <TrainPanel
+                train={train}
+                analysis={trainAnalysis}
+                selectedIndex={selectedIndex}
+                onSelect={setSelectedIndex}
+                onAdd={handleAddGear}
+                onRemove={handleRemoveGear}
+                onMeshAngleChange={handleMeshAngleChange}
+                inputRpm={inputRpm}
+                onInputRpmChange={setInputRpm}
+              />
+            </div>
+          )}
+          {viewMode === 'planetary' && (
+            <div className="mt-6">
+              <PlanetaryPanel
+                params={planetary}
+                onParamChange={handlePlanetaryChange}
+                analysis={planetaryAnalysis}
+              />
+            </div>
+          )}
+          {viewMode === 'worm' && (
+            <div className="mt-6">
+              <WormPanel
+                params={worm}
+                onParamChange={handleWormChange}
+                analysis={wormAnalysis}
+              />
+            </div>
+          )}
+          {viewMode === 'bevel' && (
+            <div className="mt-6">
+              <BevelPanel
+                params={bevel}
+                onParamChange={handleBevelChange}
+                analysis={bevelAnalysis}
+              />
+            </div>
+          )}
+          <div className="mt-6">
+            <ExportPanel
+              format={exportFormat}
+              onFormatChange={setExportFormat}
+              unit={exportUnit}
+              onUnitChange={setExportUnit}
+              onExport={handleDownload}
+              meshChecks={meshChecks}
+            />
+          </div>
+          <div className="mt-6">
+            <PresetPanel
+              canUndo={design.canUndo}
+              canRedo={design.canRedo}
+              onUndo={design.undo}
+              onRedo={design.redo}
+              onCopyLink={handleCopyLink}
+              presets={presets}
+              onSave={handleSavePreset}
+              onLoad={handleLoadPreset}
+              onDelete={handleDeletePreset}
+              onImport={handleImportPresets}
+              onExport={handleExportPresets}
+              status={presetStatus}
+            />
+          </div>
           <div className="mt-6">
-            <button
-              onClick={handleDownload}
-              className="w-full bg-blue-800 text-white font-sans font-bold py-3 px-6 rounded-md hover:bg-blue-900 focus:outline-none focus:ring-4 focus:ring-blue-800/30 transition-colors duration-200"
-              aria-label="Download gear as .glb file"
-            >
-              Export as .glb file
-            </button>
+            <ImportPanel
+              onImport={handleImport}
+              status={importStatus}
+              hasComparison={comparison !== null}
+              onClearComparison={() => setComparison(null)}
+            />
           </div>
         </div>
 
         {/* Right side: WebGL Canvas */}
         <div className="flex-grow flex items-center justify-center w-full lg:w-auto">
-          <Gear {...gearParams} />
+          <Gear meshes={viewedMeshes} animation={viewMode === 'single' ? 'turntable' : 'drive'} driveRange={driveRange} />
         </div>
 
       </div>
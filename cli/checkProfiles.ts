@@ -0,0 +1,34 @@
+// Checks that every built-in belt and chain makes a pulley or sprocket that
+// passes the design rules, from the fewest teeth it is recommended for to a
+// large wheel. Exits with 1 and lists the failures if any does not.
+
+import { DEFAULT_GEAR_PARAMS, GearParams } from '../core/gearParams';
+import { MIN_SPROCKET_TEETH, checkDesignRules } from '../core/designRules';
+import { BELT_PROFILES, BELT_TYPES } from '../core/pulley';
+import { CHAIN_SIZES } from '../core/sprocket';
+
+// The sizes each wheel is built at: the smallest recommended, and a large one.
+const LARGE_TEETH = 60;
+
+// A bore small enough that the hub rules never fire.
+const BORE_RADIUS = 1;
+
+const cases: { name: string; params: GearParams }[] = [
+  ...BELT_TYPES.flatMap(beltType => [BELT_PROFILES[beltType].minGrooves, LARGE_TEETH].map(teeth => ({
+    name: `${BELT_PROFILES[beltType].name} pulley, ${teeth} grooves`,
+    params: { ...DEFAULT_GEAR_PARAMS, gearType: 'pulley' as const, beltType, teeth, innerRadius: BORE_RADIUS },
+  }))),
+  ...CHAIN_SIZES.flatMap(({ name, pitch, rollerDiameter }) => [MIN_SPROCKET_TEETH, LARGE_TEETH].map(teeth => ({
+    name: `${name} sprocket, ${teeth} teeth`,
+    params: { ...DEFAULT_GEAR_PARAMS, gearType: 'sprocket' as const, chainPitch: pitch, rollerDiameter, teeth, innerRadius: BORE_RADIUS },
+  }))),
+];
+
+let failed = 0;
+for (const { name, params } of cases) {
+  const violations = checkDesignRules(params);
+  if (violations.length > 0) failed++;
+  for (const { severity, message } of violations) console.error(`${name}: ${severity}: ${message}`);
+}
+console.log(`${cases.length - failed} of ${cases.length} profiles pass the design rules.`);
+process.exitCode = failed > 0 ? 1 : 0;
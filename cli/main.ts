@@ -0,0 +1,145 @@
+// Batch gear generation from the command line:
+//
+//   gear-modeler [options] <specs.json|specs.csv>...
+//
+// Every spec in every file is checked before anything is written. Exits with
+// 0 when every gear was written, 1 when any spec is invalid (nothing is
+// written), and 2 for bad arguments or unreadable files.
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { LengthUnit } from '../core/gearParams';
+import { createGearGeometry, createGearProfile } from '../core/gearGeometry';
+import { ExportNode, ExportedFile, exportSceneGLB } from '../core/gltfExporter';
+import { exportSceneSTL } from '../core/stlExporter';
+import { exportDXF, exportSVG } from '../core/profileExporter';
+import { describeMeshProblems, validateMesh } from '../core/manifold';
+import { MATERIAL_PRESETS } from '../core/materials';
+import { describeAllowances } from '../core/allowance';
+import { GearSpec, parseCsvSpecs, parseJsonSpecs } from './specs';
+
+const FORMATS = ['glb', 'stl', 'stl-ascii', 'svg', 'dxf'] as const;
+type CliFormat = typeof FORMATS[number];
+
+const EXTENSIONS: Record<CliFormat, string> = { glb: 'glb', stl: 'stl', 'stl-ascii': 'stl', svg: 'svg', dxf: 'dxf' };
+
+const UNITS: LengthUnit[] = ['mm', 'inch'];
+
+const USAGE = `Usage: gear-modeler [options] <specs.json|specs.csv>...
+
+Writes one file per gear spec, named after the spec's "name" field.
+
+Options:
+  -f, --format <format>  ${FORMATS.join(', ')} (default: glb)
+  -u, --unit <unit>      ${UNITS.join(', ')}, for STL, SVG and DXF (default: mm)
+  -o, --out <dir>        output directory, created if missing (default: .)
+  -h, --help             show this help
+`;
+
+class UsageError extends Error {}
+
+// Names become file names, so anything a file system might object to is replaced.
+const fileStem = (name: string) => name.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/^[-.]+|-+$/g, '') || 'gear';
+
+const readSpecs = (path: string): GearSpec[] => {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const fileName = basename(path);
+  try {
+    return extname(path).toLowerCase() === '.csv' ? parseCsvSpecs(text, fileName) : parseJsonSpecs(text, fileName);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+};
+
+const exportGear = ({ name, params }: GearSpec, format: CliFormat, unit: LengthUnit): ExportedFile => {
+  if (format === 'svg' || format === 'dxf') {
+    const profiles = [{ name, profile: createGearProfile(params), notes: describeAllowances(params) ?? undefined }];
+    return format === 'svg' ? exportSVG(profiles, unit) : exportDXF(profiles, unit);
+  }
+  const node: ExportNode = {
+    name,
+    geometry: createGearGeometry(params),
+    material: MATERIAL_PRESETS[params.material],
+    extras: { gear: params },
+    notes: describeAllowances(params) ?? undefined,
+  };
+  return format === 'glb' ? exportSceneGLB([node]) : exportSceneSTL([node], format === 'stl' ? 'binary' : 'ascii', unit, name);
+};
+
+const run = (argv: string[]): number => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'glb' },
+        unit: { type: 'string', short: 'u', default: 'mm' },
+        out: { type: 'string', short: 'o', default: '.' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError('No spec files given.');
+  const format = values.format as CliFormat;
+  if (!FORMATS.includes(format)) throw new UsageError(`Unknown format '${values.format}'; use one of ${FORMATS.join(', ')}.`);
+  const unit = values.unit as LengthUnit;
+  if (!UNITS.includes(unit)) throw new UsageError(`Unknown unit '${values.unit}'; use one of ${UNITS.join(', ')}.`);
+
+  const specs = positionals.flatMap(readSpecs);
+
+  // Two gears with the same file name would overwrite each other.
+  const stems = new Map<string, GearSpec>();
+  for (const spec of specs) {
+    const stem = fileStem(spec.name);
+    const first = stems.get(stem);
+    if (first) spec.errors.push(`writes ${stem}.${EXTENSIONS[format]}, as ${first.source} does; give it another name`);
+    else stems.set(stem, spec);
+  }
+
+  for (const { source, name, warnings } of specs) {
+    for (const warning of warnings) process.stderr.write(`${source} (${name}): warning: ${warning}\n`);
+  }
+  const invalid = specs.filter(spec => spec.errors.length > 0);
+  if (invalid.length > 0) {
+    for (const { source, name, errors } of invalid) {
+      for (const error of errors) process.stderr.write(`${source} (${name}): error: ${error}\n`);
+    }
+    process.stderr.write(`${invalid.length} of ${specs.length} specs are invalid; nothing was written.\n`);
+    return 1;
+  }
+
+  mkdirSync(values.out, { recursive: true });
+  for (const spec of specs) {
+    const path = join(values.out, `${fileStem(spec.name)}.${EXTENSIONS[format]}`);
+    const { data } = exportGear(spec, format, unit);
+    writeFileSync(path, typeof data === 'string' ? data : new Uint8Array(data));
+    if (format !== 'svg' && format !== 'dxf') {
+      const problems = describeMeshProblems(validateMesh(createGearGeometry(spec.params)));
+      if (problems.length > 0) process.stderr.write(`${spec.source} (${spec.name}): warning: mesh has ${problems.join(', ')}\n`);
+    }
+  }
+  process.stdout.write(`Wrote ${specs.length} ${specs.length === 1 ? 'file' : 'files'} to ${values.out}\n`);
+  return 0;
+};
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (error) {
+  if (!(error instanceof UsageError)) throw error;
+  process.stderr.write(`${error.message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
@@ -0,0 +1,229 @@
+// Gear specs for batch generation: a JSON list of objects, or a CSV table
+// with a header row, each naming the gear and setting any of its parameters.
+// Unlike files saved by the modeller, specs are checked strictly: a field that
+// is unknown, mistyped or out of range makes the spec invalid rather than
+// falling back to its default.
+
+import {
+  BACKLASH_MODES, BORE_SHAPES, DEFAULT_GEAR_PARAMS, GEAR_TYPES, GearParams, KEYWAY_STANDARDS, WEB_STYLES,
+} from '../core/gearParams';
+import { MATERIALS } from '../core/materials';
+import { BELT_TYPES } from '../core/pulley';
+import { checkDesignRules } from '../core/designRules';
+
+export interface GearSpec {
+  name: string;
+  params: GearParams;
+  // Where the spec came from, for messages: "gears.csv line 3".
+  source: string;
+  errors: string[];
+  warnings: string[];
+}
+
+type ParamKey = keyof GearParams;
+
+const CHOICES: Partial<Record<ParamKey, readonly string[]>> = {
+  gearType: GEAR_TYPES,
+  profile: ['involute', 'simple'],
+  material: MATERIALS,
+  boreShape: BORE_SHAPES,
+  keywayStandard: KEYWAY_STANDARDS,
+  webStyle: WEB_STYLES,
+  beltType: BELT_TYPES,
+  backlashMode: BACKLASH_MODES,
+};
+
+// Inclusive bounds; an open bound is marked with `exclusive`.
+interface Range {
+  min?: number;
+  max?: number;
+  exclusive?: boolean;
+  integer?: boolean;
+}
+
+const RANGES: Partial<Record<ParamKey, Range>> = {
+  module: { min: 0, exclusive: true },
+  teeth: { min: 3, integer: true },
+  pressureAngle: { min: 0, max: 45, exclusive: true },
+  addendum: { min: 0, exclusive: true },
+  dedendum: { min: 0, exclusive: true },
+  innerRadius: { min: 0, exclusive: true },
+  width: { min: 0, exclusive: true },
+  helixAngle: { min: -60, max: 60 },
+  rimThickness: { min: 0, exclusive: true },
+  rackLength: { min: 0, exclusive: true },
+  hubDiameter: { min: 0 },
+  hubProjection: { min: 0 },
+  webThickness: { min: 0, exclusive: true },
+  webCutouts: { min: 2, integer: true },
+  setScrews: { min: 0, max: 3, integer: true },
+  setScrewDiameter: { min: 0, exclusive: true },
+  chainPitch: { min: 0, exclusive: true },
+  rollerDiameter: { min: 0, exclusive: true },
+  backlash: { min: 0 },
+  printClearance: { min: 0 },
+  kerf: { min: 0 },
+};
+
+const PARAM_KEYS = Object.keys(DEFAULT_GEAR_PARAMS) as ParamKey[];
+
+const checkRange = (key: ParamKey, value: number): string | null => {
+  const range = RANGES[key];
+  if (!range) return null;
+  const { min, max, exclusive, integer } = range;
+  if (integer && !Number.isInteger(value)) return `${key} must be a whole number`;
+  const below = min !== undefined && (exclusive ? value <= min : value < min);
+  const above = max !== undefined && (exclusive ? value >= max : value > max);
+  if (!below && !above) return null;
+  const bounds = [
+    min !== undefined ? `${exclusive ? 'more than' : 'at least'} ${min}` : '',
+    max !== undefined ? `${exclusive ? 'less than' : 'at most'} ${max}` : '',
+  ].filter(Boolean).join(' and ');
+  return `${key} must be ${bounds}`;
+};
+
+/** Checks one spec's fields and then the gear they describe against the design rules. */
+export const readGearSpec = (raw: unknown, defaultName: string, source: string): GearSpec => {
+  const errors: string[] = [];
+  const params: Record<string, unknown> = { ...DEFAULT_GEAR_PARAMS };
+  let name = defaultName;
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { name, params: DEFAULT_GEAR_PARAMS, source, errors: ['a spec must be an object of gear parameters'], warnings: [] };
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === 'name') {
+      if (typeof value === 'string' && value.trim()) name = value.trim();
+      else errors.push('name must be a non-empty string');
+      continue;
+    }
+    if (!PARAM_KEYS.includes(key as ParamKey)) {
+      errors.push(`unknown field '${key}'`);
+      continue;
+    }
+    const param = key as ParamKey;
+    const expected = typeof DEFAULT_GEAR_PARAMS[param];
+    if (typeof value !== expected || (expected === 'number' && !Number.isFinite(value))) {
+      errors.push(`${param} must be a ${expected === 'number' ? 'finite number' : expected}`);
+      continue;
+    }
+    const choices = CHOICES[param];
+    if (choices && !choices.includes(value as string)) {
+      errors.push(`${param} must be one of ${choices.join(', ')}`);
+      continue;
+    }
+    const outOfRange = typeof value === 'number' ? checkRange(param, value) : null;
+    if (outOfRange) {
+      errors.push(outOfRange);
+      continue;
+    }
+    params[param] = value;
+  }
+
+  const gear = params as unknown as GearParams;
+  const warnings: string[] = [];
+  // The rules assume sensible fields, so they only run once those are.
+  if (errors.length === 0) {
+    for (const { severity, message } of checkDesignRules(gear)) {
+      (severity === 'error' ? errors : warnings).push(message);
+    }
+  }
+  return { name, params: gear, source, errors, warnings };
+};
+
+/** Reads a JSON spec file: an array of specs, `{ "gears": [...] }`, or a single spec. */
+export const parseJsonSpecs = (text: string, fileName: string): GearSpec[] => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${fileName} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const list = Array.isArray(value) ? value
+    : typeof value === 'object' && value !== null && Array.isArray((value as { gears?: unknown }).gears)
+      ? (value as { gears: unknown[] }).gears
+      : [value];
+  return list.map((raw, index) => readGearSpec(raw, `gear-${index + 1}`, `${fileName} spec ${index + 1}`));
+};
+
+// Splits CSV text into rows of cells, following RFC 4180 quoting, with the
+// line each row starts on.
+const splitCsv = (text: string): { line: number; cells: string[] }[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1, rowLine = 1;
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim() !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+    rowLine = line;
+  };
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === '\n') line++;
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) throw new Error(`unterminated quoted field starting on line ${rowLine}`);
+  endRow();
+  return rows;
+};
+
+// A CSV cell as the type its column holds. Text that isn't one is passed on
+// for readGearSpec to reject.
+const readCell = (column: string, cell: string): unknown => {
+  const text = cell.trim();
+  const expected = typeof DEFAULT_GEAR_PARAMS[column as ParamKey];
+  if (expected === 'number') return Number(text);
+  if (expected === 'boolean') {
+    const lower = text.toLowerCase();
+    return ['true', 'yes', '1'].includes(lower) ? true : ['false', 'no', '0'].includes(lower) ? false : text;
+  }
+  return text;
+};
+
+/** Reads a CSV spec file whose header row names the columns: `name` and any gear parameters. */
+export const parseCsvSpecs = (text: string, fileName: string): GearSpec[] => {
+  let rows;
+  try {
+    rows = splitCsv(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (rows.length === 0) throw new Error(`${fileName} is empty.`);
+  const [header, ...body] = rows;
+  const columns = header.cells.map(cell => cell.trim());
+  return body.map(({ line, cells }, index) => {
+    const raw: Record<string, unknown> = {};
+    const extra = cells.length > columns.length ? [`line has ${cells.length} cells but the header has ${columns.length}`] : [];
+    columns.forEach((column, c) => {
+      const cell = cells[c] ?? '';
+      if (cell.trim() === '') return;
+      raw[column] = column === 'name' ? cell.trim() : readCell(column, cell);
+    });
+    const spec = readGearSpec(raw, `gear-${index + 1}`, `${fileName} line ${line}`);
+    return extra.length ? { ...spec, errors: [...extra, ...spec.errors] } : spec;
+  });
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Readout, Slider } from './controls';
+import { BevelAnalysis, BevelParams } from '../core/bevel';
+
+interface BevelPanelProps {
+  params: BevelParams;
+  onParamChange: (param: keyof BevelParams, value: number) => void;
+  analysis: BevelAnalysis;
+}
+
+export const BevelPanel: React.FC<BevelPanelProps> = ({ params, onParamChange, analysis }) => (
+  <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-6 shadow-2xl shadow-blue-500/10">
+    <Slider label="Shaft Angle (°)" id="shaftAngle" min={30} max={150} step={1} value={params.shaftAngle} onChange={value => onParamChange('shaftAngle', value)} />
+    <Slider label="Pinion Teeth" id="bevelPinionTeeth" min={6} max={60} step={1} value={params.pinionTeeth} onChange={value => onParamChange('pinionTeeth', value)} isInteger />
+    <Slider label="Gear Teeth" id="bevelGearTeeth" min={6} max={100} step={1} value={params.gearTeeth} onChange={value => onParamChange('gearTeeth', value)} isInteger />
+    <Slider label="Face Width (mm)" id="bevelFaceWidth" min={1} max={50} step={0.5} value={params.faceWidth} onChange={value => onParamChange('faceWidth', value)} />
+    <div className="pt-4 border-t border-gray-700 space-y-1">
+      <Readout label="Ratio (pinion : gear)" value={`${analysis.ratio.toFixed(2)} : 1`} />
+      <Readout label="Shaft Angle" value={`${analysis.shaftAngle.toFixed(1)}°`} />
+      <Readout label="Pinion Pitch Angle" value={`${analysis.pinion.pitchAngle.toFixed(2)}°`} />
+      <Readout label="Gear Pitch Angle" value={`${analysis.gear.pitchAngle.toFixed(2)}°`} />
+      <Readout label="Pinion Pitch Diameter" value={`${analysis.pinionPitchDiameter.toFixed(3)} mm`} />
+      <Readout label="Gear Pitch Diameter" value={`${analysis.gearPitchDiameter.toFixed(3)} mm`} />
+      <Readout label="Cone Distance" value={`${analysis.coneDistance.toFixed(3)} mm`} />
+    </div>
+    {analysis.warnings.length > 0 && (
+      <ul className="space-y-1 text-sm text-red-300">
+        {analysis.warnings.map(warning => <li key={warning}>{warning}</li>)}
+      </ul>
+    )}
+  </div>
+);
@@ -1,59 +1,316 @@
 import React from 'react';
+import { OptionGroup, Readout, Select, Slider, SliderIssue } from './controls';
+import { RuleField, RuleViolation } from '../core/designRules';
+import { PRESSURE_ANGLES } from '../core/toothProfile';
+import { MATERIALS, MATERIAL_PRESETS } from '../core/materials';
+import { CHAIN_SIZES, ChainSize } from '../core/sprocket';
+import { BELT_PROFILES, BELT_TYPES, getPulleyFlange } from '../core/pulley';
+import { getFlankOffset } from '../core/allowance';
+import {
+  AxialThrust, BacklashMode, BoreShape, GearParams, GearType, InputMode, KeywayStandard, RadiusSet, WebStyle,
+  deriveDimensions, getAxialThrust, hasHub, isChainOrBelt, toRadiusSet,
+  moduleToDiametralPitch, diametralPitchToModule,
+} from '../core/gearParams';
 
-interface GearParams {
-  innerRadius: number;
-  outerRadius: number;
-  width: number;
-  teeth: number;
-  toothDepth: number;
-}
+type ParamChangeHandler = <K extends keyof GearParams>(param: K, value: GearParams[K]) => void;
 
 interface ConfiguratorProps {
   params: GearParams;
-  onParamChange: (param: keyof GearParams, value: number) => void;
+  inputMode: InputMode;
+  onInputModeChange: (mode: InputMode) => void;
+  onParamChange: ParamChangeHandler;
+  onRadiusChange: (param: keyof RadiusSet, value: number) => void;
+  // Sets a sprocket's chain pitch and roller diameter together.
+  onChainSizeChange: (size: ChainSize) => void;
+  // Design-rule violations, shown beside the fields that can fix them.
+  violations: RuleViolation[];
+  // Other problems with the gear as configured, e.g. teeth too weak for the load.
+  warnings: string[];
 }
 
-interface SliderProps {
-  label: string;
-  param: keyof GearParams;
-  min: number;
-  max: number;
-  step: number;
-  value: number;
-  onParamChange: (param: keyof GearParams, value: number) => void;
-  isInteger?: boolean;
-}
+const THRUST_LABELS: Record<AxialThrust, string> = {
+  none: 'None',
+  balanced: 'Balanced',
+  front: 'Towards front (+z)',
+  back: 'Towards back (−z)',
+};
+
+const GEAR_TYPE_OPTIONS: { value: GearType; label: string }[] = [
+  { value: 'external', label: 'External' },
+  { value: 'internal', label: 'Internal' },
+  { value: 'rack', label: 'Rack' },
+  { value: 'sprocket', label: 'Sprocket' },
+  { value: 'pulley', label: 'Pulley' },
+];
+
+// A chain that matches none of the standard sizes.
+const CUSTOM_CHAIN = 'custom';
+
+const CHAIN_OPTIONS = [
+  ...CHAIN_SIZES.map(size => ({ value: size.name, label: `${size.name} (${size.pitch} mm)` })),
+  { value: CUSTOM_CHAIN, label: 'Custom' },
+];
+
+const BELT_OPTIONS = BELT_TYPES.map(value => ({ value, label: BELT_PROFILES[value].name }));
+
+const BORE_OPTIONS: { value: BoreShape; label: string }[] = [
+  { value: 'round', label: 'Round' },
+  { value: 'keyway', label: 'Keyway' },
+  { value: 'dFlat', label: 'D-Flat' },
+  { value: 'hex', label: 'Hex' },
+];
+
+const KEYWAY_OPTIONS: { value: KeywayStandard; label: string }[] = [
+  { value: 'din6885', label: 'DIN 6885' },
+  { value: 'ansi', label: 'ANSI B17.1' },
+];
+
+const WEB_OPTIONS: { value: WebStyle; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'recessed', label: 'Recessed' },
+  { value: 'spokes', label: 'Spokes' },
+  { value: 'holes', label: 'Holes' },
+];
+
+const BACKLASH_OPTIONS: { value: BacklashMode; label: string }[] = [
+  { value: 'circumferential', label: 'Circumferential' },
+  { value: 'normal', label: 'Normal' },
+];
+
+const MATERIAL_OPTIONS = MATERIALS.map(value => ({ value, label: MATERIAL_PRESETS[value].name }));
+
+export const Configurator: React.FC<ConfiguratorProps> = ({ params, inputMode, onInputModeChange, onParamChange, onRadiusChange, onChainSizeChange, violations, warnings }) => {
+  const derived = deriveDimensions(params);
+  const radii = toRadiusSet(params);
+  const { gearType } = params;
+  // Sprockets and pulleys take their teeth from the chain or belt, not a tooth system.
+  const chainOrBelt = isChainOrBelt(gearType);
+  const hubbed = hasHub(gearType);
+  const flange = gearType === 'pulley' ? getPulleyFlange(params) : null;
+  const chainSize = CHAIN_SIZES.find(size => size.pitch === params.chainPitch && size.rollerDiameter === params.rollerDiameter);
+  // A rack has no radii to size it by.
+  const sizeMode = gearType === 'rack' && inputMode === 'radius' ? 'module' : inputMode;
+  // A violation is explained under the first field it names and tints the others.
+  const issuesFor = (field: RuleField): SliderIssue[] => violations
+    .filter(violation => violation.fields.includes(field))
+    .map(({ severity, message, fields }) => ({ severity, message: fields[0] === field ? message : undefined }));
+  // Only a webbed gear with a hub has a rim inside its teeth.
+  const hasWeb = params.webStyle !== 'solid';
+  const flankOffset = getFlankOffset(params);
 
-const Slider: React.FC<SliderProps> = ({ label, param, min, max, step, value, onParamChange, isInteger = false }) => (
-  <div className="flex flex-col space-y-2">
-    <div className="flex justify-between items-center">
-      <label htmlFor={param} className="font-medium text-gray-300 select-none">{label}</label>
-      <span className="text-sm font-mono bg-gray-700 text-amber-300 px-2 py-1 rounded">
-        {isInteger ? value.toFixed(0) : value.toFixed(2)}
-      </span>
-    </div>
-    <input
-      id={param}
-      type="range"
-      min={min}
-      max={max}
-      step={step}
-      value={value}
-      onChange={(e) => onParamChange(param, parseFloat(e.target.value))}
-      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-400"
-      aria-label={label}
-    />
-  </div>
-);
-
-export const Configurator: React.FC<ConfiguratorProps> = ({ params, onParamChange }) => {
   return (
     <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-6 shadow-2xl shadow-blue-500/10">
-      <Slider label="Inner Radius" param="innerRadius" min={0.1} max={params.outerRadius - 0.1} step={0.05} value={params.innerRadius} onParamChange={onParamChange} />
-      <Slider label="Outer Radius" param="outerRadius" min={params.innerRadius + 0.1} max={2.0} step={0.05} value={params.outerRadius} onParamChange={onParamChange} />
-      <Slider label="Width" param="width" min={0.1} max={1.0} step={0.05} value={params.width} onParamChange={onParamChange} />
-      <Slider label="Teeth" param="teeth" min={3} max={40} step={1} value={params.teeth} onParamChange={onParamChange} isInteger />
-      <Slider label="Tooth Depth" param="toothDepth" min={0.05} max={0.5} step={0.01} value={params.toothDepth} onParamChange={onParamChange} />
+      <Select
+        label="Gear Type"
+        id="gearType"
+        options={GEAR_TYPE_OPTIONS}
+        value={gearType}
+        onChange={value => onParamChange('gearType', value)}
+      />
+      <Select
+        label="Material"
+        id="material"
+        options={MATERIAL_OPTIONS}
+        value={params.material}
+        onChange={value => onParamChange('material', value)}
+      />
+      {chainOrBelt ? (
+        <>
+          {gearType === 'sprocket' ? (
+            <>
+              <Select
+                label="Chain"
+                id="chainSize"
+                options={CHAIN_OPTIONS}
+                value={chainSize?.name ?? CUSTOM_CHAIN}
+                onChange={value => {
+                  const size = CHAIN_SIZES.find(candidate => candidate.name === value);
+                  if (size) onChainSizeChange(size);
+                }}
+              />
+              <Slider label="Chain Pitch (mm)" id="chainPitch" min={4} max={40} step={0.005} value={params.chainPitch} onChange={value => onParamChange('chainPitch', value)} issues={issuesFor('chainPitch')} />
+              <Slider label="Roller Diameter (mm)" id="rollerDiameter" min={1} max={25} step={0.01} value={params.rollerDiameter} onChange={value => onParamChange('rollerDiameter', value)} issues={issuesFor('rollerDiameter')} />
+            </>
+          ) : (
+            <>
+              <Select label="Belt" id="beltType" options={BELT_OPTIONS} value={params.beltType} onChange={value => onParamChange('beltType', value)} />
+              <OptionGroup
+                label="Flanges"
+                options={[{ value: 'none', label: 'None' }, { value: 'flanged', label: 'Both Sides' }]}
+                value={params.flanges ? 'flanged' : 'none'}
+                onChange={value => onParamChange('flanges', value === 'flanged')}
+              />
+            </>
+          )}
+          <Slider label="Teeth" id="teeth" min={3} max={120} step={1} value={params.teeth} onChange={value => onParamChange('teeth', value)} issues={issuesFor('teeth')} isInteger />
+          <Slider label="Face Width (mm)" id="width" min={1} max={50} step={0.5} value={params.width} onChange={value => onParamChange('width', value)} />
+          <Slider label="Bore Radius (mm)" id="innerRadius" min={0.5} max={radii.outerRadius - 0.5} step={0.1} value={params.innerRadius} onChange={value => onParamChange('innerRadius', value)} issues={issuesFor('innerRadius')} />
+        </>
+      ) : (
+        <>
+        <OptionGroup
+          label="Size By"
+          options={[
+            { value: 'module', label: 'Module' },
+            { value: 'diametralPitch', label: 'Diam. Pitch' },
+            ...(gearType === 'rack' ? [] : [{ value: 'radius' as const, label: 'Radii' }]),
+          ]}
+          value={sizeMode}
+          onChange={onInputModeChange}
+        />
+        {sizeMode === 'radius' ? (
+          <>
+            {gearType === 'external' && (
+              <Slider label="Inner Radius (mm)" id="innerRadius" min={0.5} max={radii.outerRadius - 0.5} step={0.1} value={radii.innerRadius} onChange={value => onRadiusChange('innerRadius', value)} issues={issuesFor('innerRadius')} />
+            )}
+            <Slider label="Outer Radius (mm)" id="outerRadius" min={gearType === 'external' ? radii.innerRadius + 0.5 : 1} max={100} step={0.1} value={radii.outerRadius} onChange={value => onRadiusChange('outerRadius', value)} issues={issuesFor('outerRadius')} />
+            <Slider label="Width (mm)" id="width" min={1} max={50} step={0.5} value={radii.width} onChange={value => onRadiusChange('width', value)} />
+            <Slider label="Teeth" id="teeth" min={3} max={80} step={1} value={radii.teeth} onChange={value => onRadiusChange('teeth', value)} issues={issuesFor('teeth')} isInteger />
+            <Slider label="Tooth Depth (mm)" id="toothDepth" min={0.5} max={12} step={0.05} value={radii.toothDepth} onChange={value => onRadiusChange('toothDepth', value)} issues={issuesFor('toothDepth')} />
+          </>
+        ) : (
+          <>
+            {sizeMode === 'module' ? (
+              <Slider label="Module (mm)" id="module" min={0.25} max={5} step={0.05} value={params.module} onChange={value => onParamChange('module', value)} issues={issuesFor('module')} />
+            ) : (
+              <Slider label="Diametral Pitch (1/in)" id="diametralPitch" min={5} max={100} step={1} value={moduleToDiametralPitch(params.module)} onChange={value => onParamChange('module', diametralPitchToModule(value))} issues={issuesFor('module')} />
+            )}
+            {gearType === 'rack' ? (
+              <Slider label="Rack Length (mm)" id="rackLength" min={10} max={300} step={1} value={params.rackLength} onChange={value => onParamChange('rackLength', value)} />
+            ) : (
+              <>
+                <Slider label="Teeth" id="teeth" min={3} max={gearType === 'internal' ? 150 : 80} step={1} value={params.teeth} onChange={value => onParamChange('teeth', value)} issues={issuesFor('teeth')} isInteger />
+                <Slider label="Profile Shift" id="profileShift" min={-0.5} max={1.0} step={0.05} value={params.profileShift} onChange={value => onParamChange('profileShift', value)} issues={issuesFor('profileShift')} />
+              </>
+            )}
+            <Slider label="Face Width (mm)" id="width" min={1} max={50} step={0.5} value={params.width} onChange={value => onParamChange('width', value)} />
+            {gearType === 'external' && (
+              <Slider label="Bore Radius (mm)" id="innerRadius" min={0.5} max={radii.outerRadius - 0.5} step={0.1} value={params.innerRadius} onChange={value => onParamChange('innerRadius', value)} issues={issuesFor('innerRadius')} />
+            )}
+          </>
+        )}
+        </>
+      )}
+      {hubbed && (
+        <>
+          <OptionGroup label="Bore" options={BORE_OPTIONS} value={params.boreShape} onChange={value => onParamChange('boreShape', value)} />
+          {params.boreShape === 'keyway' && (
+            <OptionGroup label="Keyway Standard" options={KEYWAY_OPTIONS} value={params.keywayStandard} onChange={value => onParamChange('keywayStandard', value)} />
+          )}
+          <Slider label="Hub Diameter (mm)" id="hubDiameter" min={2} max={100} step={0.5} value={params.hubDiameter} onChange={value => onParamChange('hubDiameter', value)} issues={issuesFor('hubDiameter')} />
+          <Slider label="Hub Projection (mm)" id="hubProjection" min={0} max={30} step={0.5} value={params.hubProjection} onChange={value => onParamChange('hubProjection', value)} />
+          <OptionGroup label="Web" options={WEB_OPTIONS} value={params.webStyle} onChange={value => onParamChange('webStyle', value)} />
+          {hasWeb && (
+            <Slider label="Web Thickness (mm)" id="webThickness" min={0.5} max={Math.max(0.5, params.width)} step={0.5} value={Math.min(params.webThickness, params.width)} onChange={value => onParamChange('webThickness', value)} issues={issuesFor('webThickness')} />
+          )}
+          {(params.webStyle === 'spokes' || params.webStyle === 'holes') && (
+            <Slider label={params.webStyle === 'spokes' ? 'Spokes' : 'Holes'} id="webCutouts" min={2} max={12} step={1} value={params.webCutouts} onChange={value => onParamChange('webCutouts', value)} isInteger />
+          )}
+          <Slider label="Set Screws" id="setScrews" min={0} max={3} step={1} value={params.setScrews} onChange={value => onParamChange('setScrews', value)} isInteger />
+          {params.setScrews > 0 && (
+            <Slider label="Set Screw Diameter (mm)" id="setScrewDiameter" min={1} max={10} step={0.5} value={params.setScrewDiameter} onChange={value => onParamChange('setScrewDiameter', value)} issues={issuesFor('setScrewDiameter')} />
+          )}
+        </>
+      )}
+      {(!hubbed || hasWeb) && (
+        <Slider label="Rim Thickness (mm)" id="rimThickness" min={1} max={20} step={0.5} value={params.rimThickness} onChange={value => onParamChange('rimThickness', value)} issues={issuesFor('rimThickness')} />
+      )}
+      {!chainOrBelt && (
+        <>
+        <OptionGroup
+          label="Tooth Profile"
+          options={[{ value: 'involute', label: 'Involute' }, { value: 'simple', label: 'Simple' }]}
+          value={params.profile}
+          onChange={value => onParamChange('profile', value)}
+        />
+        <OptionGroup
+          label="Pressure Angle"
+          options={PRESSURE_ANGLES.map(angle => ({ value: angle, label: `${angle}°` }))}
+          value={params.pressureAngle}
+          onChange={value => onParamChange('pressureAngle', value)}
+        />
+        <Slider label="Addendum" id="addendum" min={0.5} max={1.5} step={0.05} value={params.addendum} onChange={value => onParamChange('addendum', value)} issues={issuesFor('addendum')} />
+        <Slider label="Dedendum" id="dedendum" min={0.75} max={1.75} step={0.05} value={params.dedendum} onChange={value => onParamChange('dedendum', value)} issues={issuesFor('dedendum')} />
+        <Slider label="Helix Angle (°)" id="helixAngle" min={-45} max={45} step={1} value={params.helixAngle} onChange={value => onParamChange('helixAngle', value)} isInteger />
+        {params.helixAngle !== 0 && (
+          <OptionGroup
+            label="Helix Form"
+            options={[{ value: 'helical', label: 'Helical' }, { value: 'herringbone', label: 'Herringbone' }]}
+            value={params.herringbone ? 'herringbone' : 'helical'}
+            onChange={value => onParamChange('herringbone', value === 'herringbone')}
+          />
+        )}
+        </>
+      )}
+      <Slider label="Backlash (mm)" id="backlash" min={0} max={0.5} step={0.01} value={params.backlash} onChange={value => onParamChange('backlash', value)} issues={issuesFor('backlash')} />
+      {!chainOrBelt && params.backlash > 0 && (
+        <OptionGroup label="Backlash As" options={BACKLASH_OPTIONS} value={params.backlashMode} onChange={value => onParamChange('backlashMode', value)} />
+      )}
+      <Slider label="Print XY Clearance (mm)" id="printClearance" min={0} max={0.5} step={0.01} value={params.printClearance} onChange={value => onParamChange('printClearance', value)} issues={issuesFor('printClearance')} />
+      <Slider label="Kerf (mm)" id="kerf" min={0} max={0.5} step={0.01} value={params.kerf} onChange={value => onParamChange('kerf', value)} issues={issuesFor('kerf')} />
+      {hubbed && (
+        <Slider label="Bore Allowance (mm)" id="boreAllowance" min={-0.5} max={0.5} step={0.01} value={params.boreAllowance} onChange={value => onParamChange('boreAllowance', value)} />
+      )}
+      <div className="pt-4 border-t border-gray-700 space-y-1">
+        {chainOrBelt ? (
+          <>
+            <Readout label="Pitch Diameter" value={`${derived.pitchDiameter.toFixed(2)} mm`} />
+            <Readout label={gearType === 'pulley' ? 'Outside Diameter' : 'Tip Diameter'} value={`${derived.tipDiameter.toFixed(2)} mm`} />
+            <Readout label="Root Diameter" value={`${derived.rootDiameter.toFixed(2)} mm`} />
+            {flange && <Readout label="Flange Diameter" value={`${(2 * flange.radius).toFixed(2)} mm`} />}
+          </>
+        ) : (
+          <>
+            {gearType === 'rack' ? (
+              <>
+                <Readout label="Tooth Height" value={`${((params.addendum + params.dedendum) * params.module).toFixed(2)} mm`} />
+                <Readout label="Teeth Along Length" value={(params.rackLength / derived.circularPitch).toFixed(1)} />
+              </>
+            ) : (
+              <>
+                <Readout label="Pitch Diameter" value={`${derived.pitchDiameter.toFixed(2)} mm`} />
+                <Readout label="Base Diameter" value={`${derived.baseDiameter.toFixed(2)} mm`} />
+                <Readout label="Tip Diameter" value={`${derived.tipDiameter.toFixed(2)} mm`} />
+                <Readout label="Root Diameter" value={`${derived.rootDiameter.toFixed(2)} mm`} />
+                {gearType === 'internal' && (
+                  <Readout label="Outside Diameter" value={`${(derived.rootDiameter + 2 * params.rimThickness).toFixed(2)} mm`} />
+                )}
+              </>
+            )}
+            <Readout label="Circular Pitch" value={`${derived.circularPitch.toFixed(2)} mm`} />
+            {sizeMode === 'diametralPitch'
+              ? <Readout label="Module" value={`${params.module.toFixed(3)} mm`} />
+              : <Readout label="Diametral Pitch" value={`${derived.diametralPitch.toFixed(2)} /in`} />}
+            {params.helixAngle !== 0 && (
+              <>
+                <Readout label="Hand" value={params.helixAngle > 0 ? 'Right' : 'Left'} />
+                <Readout label="Normal Module" value={`${derived.normalModule.toFixed(3)} mm`} />
+                <Readout label="Axial Pitch" value={`${derived.axialPitch.toFixed(2)} mm`} />
+                <Readout label="Axial Thrust (driving CCW)" value={THRUST_LABELS[getAxialThrust(params)]} />
+              </>
+            )}
+            {sizeMode === 'radius' && (
+              <Readout label="Module / Shift" value={`${params.module.toFixed(3)} / ${params.profileShift.toFixed(2)}`} />
+            )}
+          </>
+        )}
+        {flankOffset !== 0 && (
+          <Readout label="Flank Offset" value={`${flankOffset > 0 ? '+' : ''}${flankOffset.toFixed(3)} mm`} />
+        )}
+        {hubbed && params.boreAllowance !== 0 && (
+          <Readout label="Bore Diameter (with allowance)" value={`${(2 * params.innerRadius + params.boreAllowance).toFixed(3)} mm`} />
+        )}
+      </div>
+      {(violations.length > 0 || warnings.length > 0) && (
+        <ul className="space-y-1 text-sm text-red-300">
+          {violations.map(({ severity, message }) => (
+            <li key={message} className={severity === 'warning' ? 'text-amber-300' : undefined}>
+              {severity === 'error' ? 'Error' : 'Warning'}: {message}
+            </li>
+          ))}
+          {warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
     </div>
   );
 };
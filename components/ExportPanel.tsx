@@ -0,0 +1,85 @@
+import React from 'react';
+import { OptionGroup, Readout } from './controls';
+import { LengthUnit } from '../core/gearParams';
+import { MeshReport, describeMeshProblems } from '../core/manifold';
+
+export type ExportFormat = 'glb' | 'stl-binary' | 'stl-ascii' | 'dxf' | 'svg';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  glb: 'glb',
+  'stl-binary': 'stl',
+  'stl-ascii': 'stl',
+  dxf: 'dxf',
+  svg: 'svg',
+};
+
+export interface MeshCheck {
+  name: string;
+  report: MeshReport;
+}
+
+interface ExportPanelProps {
+  format: ExportFormat;
+  onFormatChange: (format: ExportFormat) => void;
+  unit: LengthUnit;
+  onUnitChange: (unit: LengthUnit) => void;
+  onExport: () => void;
+  // One per mesh that a 3D export will write.
+  meshChecks: MeshCheck[];
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ format, onFormatChange, unit, onUnitChange, onExport, meshChecks }) => {
+  const problems = meshChecks.flatMap(({ name, report }) => {
+    const described = describeMeshProblems(report);
+    return described.length ? [`${name}: ${described.join(', ')}.`] : [];
+  });
+  const sum = (count: (report: MeshReport) => number) => meshChecks.reduce((total, { report }) => total + count(report), 0);
+  const is3D = format !== 'dxf' && format !== 'svg';
+
+  return (
+    <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-6 shadow-2xl shadow-blue-500/10">
+      <OptionGroup
+        label="Export Format"
+        options={[
+          { value: 'glb', label: 'GLB' },
+          { value: 'stl-binary', label: 'STL' },
+          { value: 'stl-ascii', label: 'STL (ASCII)' },
+          { value: 'dxf', label: 'DXF' },
+          { value: 'svg', label: 'SVG' },
+        ]}
+        value={format}
+        onChange={onFormatChange}
+      />
+      {(format === 'dxf' || format === 'svg') && (
+        <p className="text-sm text-gray-400">Flat profiles on their mid-plane, laid out side by side for cutting. Worms and bevel gears have none and are left out.</p>
+      )}
+      {format !== 'glb' && (
+        <OptionGroup
+          label="Units"
+          options={[{ value: 'mm', label: 'mm' }, { value: 'inch', label: 'inch' }]}
+          value={unit}
+          onChange={onUnitChange}
+        />
+      )}
+      {is3D && (
+        <div className="space-y-1">
+          <Readout label="Triangles" value={sum(report => report.triangles).toLocaleString()} />
+          <Readout label="Vertices" value={sum(report => report.vertices).toLocaleString()} />
+          <Readout label="Mesh Check" value={problems.length ? `${problems.length} of ${meshChecks.length} with defects` : 'Watertight'} />
+          {problems.length > 0 && (
+            <ul className="pt-1 space-y-1 text-sm text-red-300">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      <button
+        onClick={onExport}
+        className="w-full bg-blue-800 text-white font-sans font-bold py-3 px-6 rounded-md hover:bg-blue-900 focus:outline-none focus:ring-4 focus:ring-blue-800/30 transition-colors duration-200"
+        aria-label={`Download as .${EXPORT_EXTENSIONS[format]} file`}
+      >
+        Export as .{EXPORT_EXTENSIONS[format]} file
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+
+export interface ImportStatus {
+  message: string;
+  error: boolean;
+}
+
+interface ImportPanelProps {
+  onImport: (file: File) => void;
+  status: ImportStatus | null;
+  hasComparison: boolean;
+  onClearComparison: () => void;
+}
+
+export const ImportPanel: React.FC<ImportPanelProps> = ({ onImport, status, hasComparison, onClearComparison }) => (
+  <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-4 shadow-2xl shadow-blue-500/10">
+    <label className="flex flex-col space-y-2">
+      <span className="font-medium text-gray-300 select-none">Open .glb file</span>
+      <input
+        type="file"
+        accept=".glb,model/gltf-binary"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          // Let the same file be picked again after it changes on disk.
+          e.target.value = '';
+        }}
+        className="text-sm text-gray-300 file:mr-3 file:px-3 file:py-1 file:rounded file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+      />
+    </label>
+    {status && (
+      <p className={`text-sm ${status.error ? 'text-red-300' : 'text-gray-300'}`}>{status.message}</p>
+    )}
+    {hasComparison && (
+      <button
+        type="button"
+        onClick={onClearComparison}
+        className="w-full px-2 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200"
+      >
+        Clear imported mesh
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Readout } from './controls';
+import { MassProperties } from '../core/massProperties';
+import { Material } from '../core/materials';
+
+interface MassPanelProps {
+  material: Material;
+  properties: MassProperties;
+  // A rack has no axis to turn about, so its polar moment is left out.
+  showInertia: boolean;
+}
+
+// g·mm² per g·cm² and per kg·m².
+const G_MM2_PER_G_CM2 = 100;
+const G_MM2_PER_KG_M2 = 1e9;
+
+// Rounding leaves tiny negative offsets on symmetric parts; show them as 0.00.
+const formatCoordinate = (v: number) => (Math.abs(v) < 0.005 ? 0 : v).toFixed(2);
+
+export const MassPanel: React.FC<MassPanelProps> = ({ material, properties, showInertia }) => {
+  const { volume, surfaceArea, centroid, mass, polarMoment } = properties;
+  return (
+    <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-1 shadow-2xl shadow-blue-500/10">
+      <Readout label="Material" value={`${material.name}, ${material.density.toFixed(2)} g/cm³`} />
+      <Readout label="Volume" value={`${volume.toFixed(1)} mm³`} />
+      <Readout label="Surface Area" value={`${surfaceArea.toFixed(1)} mm²`} />
+      <Readout label="Mass" value={`${mass.toFixed(2)} g`} />
+      <Readout label="Centroid" value={centroid.map(formatCoordinate).join(', ') + ' mm'} />
+      {showInertia && (
+        <>
+          <Readout label="Polar Moment (about axis)" value={`${(polarMoment / G_MM2_PER_G_CM2).toFixed(3)} g·cm²`} />
+          <Readout label="Polar Moment (SI)" value={`${(polarMoment / G_MM2_PER_KG_M2).toExponential(3)} kg·m²`} />
+        </>
+      )}
+    </div>
+  );
+};
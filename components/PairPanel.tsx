@@ -0,0 +1,64 @@
+import React from 'react';
+import { Readout, Select, Slider } from './controls';
+import { MateParams, PairAnalysis } from '../core/gearPair';
+import { isChainOrBelt } from '../core/gearParams';
+import { ViewMode } from './scene';
+
+interface PairPanelProps {
+  viewMode: ViewMode;
+  onViewModeChange: (mode: ViewMode) => void;
+  mate: MateParams;
+  onMateChange: (param: keyof MateParams, value: number) => void;
+  analysis: PairAnalysis;
+}
+
+export const PairPanel: React.FC<PairPanelProps> = ({ viewMode, onViewModeChange, mate, onMateChange, analysis }) => {
+  // A chain or belt drive has no mesh to shift, contact or play in.
+  const meshing = !isChainOrBelt(analysis.kind);
+  return (
+    <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-6 shadow-2xl shadow-blue-500/10">
+      <Select
+        label="View"
+        id="viewMode"
+        options={[
+          { value: 'single', label: 'Single' },
+          { value: 'pair', label: 'Pair' },
+          { value: 'train', label: 'Train' },
+          { value: 'planetary', label: 'Planetary' },
+          { value: 'worm', label: 'Worm' },
+          { value: 'bevel', label: 'Bevel' },
+        ]}
+        value={viewMode}
+        onChange={onViewModeChange}
+      />
+      {viewMode === 'pair' && (
+        <>
+          <Slider label="Driven Teeth" id="mateTeeth" min={3} max={80} step={1} value={mate.teeth} onChange={value => onMateChange('teeth', value)} isInteger />
+          {meshing && (
+            <Slider label="Driven Profile Shift" id="mateProfileShift" min={-0.5} max={1.0} step={0.05} value={mate.profileShift} onChange={value => onMateChange('profileShift', value)} />
+          )}
+          <Slider label="Centre Distance Allowance (mm)" id="centerDistanceAllowance" min={0} max={0.5} step={0.01} value={mate.centerDistanceAllowance} onChange={value => onMateChange('centerDistanceAllowance', value)} />
+          <div className="pt-4 border-t border-gray-700 space-y-1">
+            {analysis.kind === 'rack'
+              ? <Readout label="Rack Travel per Turn" value={`${analysis.rackTravel.toFixed(2)} mm`} />
+              : <Readout label="Gear Ratio" value={`${analysis.ratio.toFixed(3)} : 1`} />}
+            <Readout label="Centre Distance" value={`${analysis.centerDistance.toFixed(3)} mm`} />
+            {meshing && (
+              <>
+                <Readout label="Working Pressure Angle" value={`${analysis.workingPressureAngle.toFixed(2)}°`} />
+                <Readout label="Contact Ratio" value={analysis.contactRatio.toFixed(3)} />
+                {analysis.overlapRatio > 0 && <Readout label="Overlap Ratio" value={analysis.overlapRatio.toFixed(3)} />}
+                <Readout label="Backlash (circ. / normal)" value={`${analysis.backlash.toFixed(3)} / ${analysis.normalBacklash.toFixed(3)} mm`} />
+              </>
+            )}
+          </div>
+          {analysis.warnings.length > 0 && (
+            <ul className="space-y-1 text-sm text-red-300">
+              {analysis.warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Readout, Slider } from './controls';
+import { PlanetaryAnalysis, PlanetaryParams } from '../core/planetary';
+
+interface PlanetaryPanelProps {
+  params: PlanetaryParams;
+  onParamChange: (param: keyof PlanetaryParams, value: number) => void;
+  analysis: PlanetaryAnalysis;
+}
+
+export const PlanetaryPanel: React.FC<PlanetaryPanelProps> = ({ params, onParamChange, analysis }) => (
+  <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-6 shadow-2xl shadow-blue-500/10">
+    <Slider label="Sun Teeth" id="sunTeeth" min={6} max={80} step={1} value={params.sunTeeth} onChange={value => onParamChange('sunTeeth', value)} isInteger />
+    <Slider label="Ring Teeth" id="ringTeeth" min={20} max={150} step={1} value={params.ringTeeth} onChange={value => onParamChange('ringTeeth', value)} isInteger />
+    <Slider label="Planets" id="planetCount" min={2} max={8} step={1} value={params.planetCount} onChange={value => onParamChange('planetCount', value)} isInteger />
+    <div className="pt-4 border-t border-gray-700 space-y-1">
+      <Readout label="Planet Teeth" value={`${analysis.planetTeeth}`} />
+      <Readout label="Ratio (sun : carrier, ring held)" value={`${analysis.ratio.toFixed(3)} : 1`} />
+      <Readout label="Sun–Planet Centre Distance" value={`${analysis.centerDistance.toFixed(3)} mm`} />
+      <Readout label="Planet Tip Clearance" value={`${analysis.planetClearance.toFixed(2)} mm`} />
+    </div>
+    {analysis.warnings.length > 0 && (
+      <ul className="space-y-1 text-sm text-red-300">
+        {analysis.warnings.map(warning => <li key={warning}>{warning}</li>)}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Preset } from './configuration';
+import { ImportStatus } from './ImportPanel';
+
+interface PresetPanelProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onCopyLink: () => void;
+  presets: Preset[];
+  onSave: (name: string) => void;
+  onLoad: (preset: Preset) => void;
+  onDelete: (name: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  status: ImportStatus | null;
+}
+
+const BUTTON = 'px-3 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200 disabled:opacity-40 disabled:hover:bg-gray-700';
+
+// Shortcut labels follow the platform's modifier key.
+const MODIFIER = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl+';
+
+export const PresetPanel: React.FC<PresetPanelProps> = ({
+  canUndo, canRedo, onUndo, onRedo, onCopyLink, presets, onSave, onLoad, onDelete, onImport, onExport, status,
+}) => {
+  const [name, setName] = useState('');
+  const trimmed = name.trim();
+
+  return (
+    <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-4 shadow-2xl shadow-blue-500/10">
+      <div className="flex gap-2">
+        <button type="button" onClick={onUndo} disabled={!canUndo} className={BUTTON} title={`Undo (${MODIFIER}Z)`}>Undo</button>
+        <button type="button" onClick={onRedo} disabled={!canRedo} className={BUTTON} title={`Redo (${MODIFIER}Shift+Z)`}>Redo</button>
+        <button type="button" onClick={onCopyLink} className={`${BUTTON} ml-auto`}>Copy link</button>
+      </div>
+      <form
+        className="flex gap-2"
+        onSubmit={e => {
+          e.preventDefault();
+          if (!trimmed) return;
+          onSave(trimmed);
+          setName('');
+        }}
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="Preset name"
+          aria-label="Preset name"
+          className="flex-1 min-w-0 px-2 py-1 rounded-md border border-gray-700 bg-gray-700 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-400"
+        />
+        <button type="submit" disabled={!trimmed} className={BUTTON}>
+          {presets.some(preset => preset.name === trimmed) ? 'Replace' : 'Save'}
+        </button>
+      </form>
+      {presets.length > 0 && (
+        <ul className="space-y-1">
+          {presets.map(preset => (
+            <li key={preset.name} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate text-gray-200" title={`Saved ${new Date(preset.savedAt).toLocaleString()}`}>{preset.name}</span>
+              <button type="button" onClick={() => onLoad(preset)} className={BUTTON}>Load</button>
+              <button type="button" onClick={() => onDelete(preset.name)} className={BUTTON} aria-label={`Delete ${preset.name}`}>Delete</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-2">
+        <label className="flex-1">
+          <span className="sr-only">Import presets</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = '';
+            }}
+            className="w-full text-sm text-gray-300 file:mr-3 file:px-3 file:py-1 file:rounded file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+          />
+        </label>
+        <button type="button" onClick={onExport} disabled={presets.length === 0} className={BUTTON}>Export</button>
+      </div>
+      {status && (
+        <p className={`text-sm ${status.error ? 'text-red-300' : 'text-gray-300'}`}>{status.message}</p>
+      )}
+    </div>
+  );
+};
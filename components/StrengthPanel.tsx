@@ -0,0 +1,48 @@
+import React from 'react';
+import { OptionGroup, Readout, Slider } from './controls';
+import { LoadMode, LoadParams, MATERIAL_STRENGTH, StrengthAnalysis } from '../core/strength';
+import { MaterialId } from '../core/materials';
+
+interface StrengthPanelProps {
+  load: LoadParams;
+  onLoadModeChange: (mode: LoadMode) => void;
+  onLoadChange: (param: 'torque' | 'power' | 'rpm', value: number) => void;
+  material: MaterialId;
+  isRack: boolean;
+  analysis: StrengthAnalysis;
+}
+
+const formatSafety = (factor: number) => (Number.isFinite(factor) ? factor.toFixed(2) : '—');
+
+export const StrengthPanel: React.FC<StrengthPanelProps> = ({ load, onLoadModeChange, onLoadChange, material, isRack, analysis }) => {
+  const { bendingAllowable, contactAllowable } = MATERIAL_STRENGTH[material];
+  // A rack's load is given on its pinion, which is the shaft that turns.
+  const shaft = isRack ? 'Pinion ' : '';
+  return (
+    <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-6 shadow-2xl shadow-blue-500/10">
+      <OptionGroup
+        label="Load By"
+        options={[{ value: 'torque', label: 'Torque' }, { value: 'power', label: 'Power' }]}
+        value={load.mode}
+        onChange={onLoadModeChange}
+      />
+      {load.mode === 'torque' ? (
+        <Slider label={`${shaft}Torque (N·m)`} id="torque" min={0.05} max={100} step={0.05} value={load.torque} onChange={value => onLoadChange('torque', value)} />
+      ) : (
+        <Slider label="Power (W)" id="power" min={1} max={5000} step={1} value={load.power} onChange={value => onLoadChange('power', value)} isInteger />
+      )}
+      <Slider label={`${shaft}Speed (rpm)`} id="loadRpm" min={1} max={6000} step={1} value={load.rpm} onChange={value => onLoadChange('rpm', value)} isInteger />
+      <div className="pt-4 border-t border-gray-700 space-y-1">
+        {load.mode === 'power' && <Readout label={`${shaft}Torque`} value={`${analysis.torque.toFixed(3)} N·m`} />}
+        <Readout label="Tangential Force" value={`${analysis.tangentialForce.toFixed(1)} N`} />
+        <Readout label="Pitch-Line Velocity" value={`${analysis.pitchLineVelocity.toFixed(2)} m/s`} />
+        <Readout label="Dynamic Factor" value={analysis.dynamicFactor.toFixed(3)} />
+        <Readout label="Lewis Form Factor" value={analysis.lewisFormFactor.toFixed(3)} />
+        <Readout label="Bending Stress / Allowed" value={`${analysis.bendingStress.toFixed(1)} / ${bendingAllowable} MPa`} />
+        <Readout label="Bending Safety Factor" value={formatSafety(analysis.bendingSafety)} />
+        <Readout label="Contact Stress / Allowed" value={`${analysis.contactStress.toFixed(1)} / ${contactAllowable} MPa`} />
+        <Readout label="Contact Safety Factor" value={formatSafety(analysis.contactSafety)} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Readout, Slider } from './controls';
+import { TrainAnalysis, TrainGear, TrainLink } from '../core/gearTrain';
+
+interface TrainPanelProps {
+  train: TrainGear[];
+  analysis: TrainAnalysis;
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onAdd: (link: Exclude<TrainLink, 'input'>) => void;
+  onRemove: (index: number) => void;
+  onMeshAngleChange: (value: number) => void;
+  inputRpm: number;
+  onInputRpmChange: (value: number) => void;
+}
+
+const LINK_LABELS: Record<TrainLink, string> = {
+  input: 'input shaft',
+  mesh: 'meshes',
+  compound: 'compound',
+};
+
+export const TrainPanel: React.FC<TrainPanelProps> = ({
+  train, analysis, selectedIndex, onSelect, onAdd, onRemove, onMeshAngleChange, inputRpm, onInputRpmChange,
+}) => {
+  const selected = train[selectedIndex];
+  const outputRpm = inputRpm * analysis.outputSpeed;
+
+  return (
+    <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-6 shadow-2xl shadow-blue-500/10">
+      <div className="flex flex-col space-y-2">
+        <span className="font-medium text-gray-300 select-none">Gear Train</span>
+        <ul className="space-y-1">
+          {analysis.placed.map(({ gear, name }, index) => (
+            <li key={gear.id} className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => onSelect(index)}
+                className={`flex-1 text-left px-2 py-1 rounded text-sm font-mono transition-colors duration-200 ${
+                  index === selectedIndex ? 'bg-amber-400 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+                aria-pressed={index === selectedIndex}
+              >
+                {name} · {Math.round(gear.params.teeth)}T · {LINK_LABELS[gear.link]}
+              </button>
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(index)}
+                  className="px-2 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-red-700 hover:text-white transition-colors duration-200"
+                  aria-label={`Remove ${name}`}
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <button type="button" onClick={() => onAdd('mesh')} className="flex-1 px-2 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200">
+            + Meshing gear
+          </button>
+          <button type="button" onClick={() => onAdd('compound')} className="flex-1 px-2 py-1 rounded text-sm bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors duration-200">
+            + Compound gear
+          </button>
+        </div>
+      </div>
+      {selected.link === 'mesh' && (
+        <Slider label="Mesh Direction (°)" id="meshAngle" min={-180} max={180} step={5} value={selected.meshAngle} onChange={onMeshAngleChange} isInteger />
+      )}
+      <Slider label="Input Speed (rpm)" id="inputRpm" min={10} max={3000} step={10} value={inputRpm} onChange={onInputRpmChange} isInteger />
+      <div className="pt-4 border-t border-gray-700 space-y-1">
+        <Readout label="Overall Ratio" value={`${analysis.ratio.toFixed(3)} : 1`} />
+        <Readout label="Output Speed" value={`${Math.abs(outputRpm).toFixed(1)} rpm`} />
+        <Readout label="Output Direction" value={analysis.outputSpeed > 0 ? 'Same as input' : 'Opposite to input'} />
+      </div>
+      {analysis.warnings.length > 0 && (
+        <ul className="space-y-1 text-sm text-red-300">
+          {analysis.warnings.map(warning => <li key={warning}>{warning}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Readout, Slider } from './controls';
+import { WORM_FRICTION, WormAnalysis, WormParams } from '../core/worm';
+
+interface WormPanelProps {
+  params: WormParams;
+  onParamChange: (param: keyof WormParams, value: number) => void;
+  analysis: WormAnalysis;
+}
+
+export const WormPanel: React.FC<WormPanelProps> = ({ params, onParamChange, analysis }) => (
+  <div className="w-full p-6 bg-gray-800/50 backdrop-blur-sm rounded-xl border border-gray-700 space-y-6 shadow-2xl shadow-blue-500/10">
+    <Slider label="Starts" id="wormStarts" min={1} max={6} step={1} value={params.starts} onChange={value => onParamChange('starts', value)} isInteger />
+    <Slider label="Lead Angle (°)" id="leadAngle" min={1} max={30} step={0.5} value={params.leadAngle} onChange={value => onParamChange('leadAngle', value)} />
+    <Slider label="Axial Module (mm)" id="wormModule" min={0.5} max={5} step={0.05} value={params.module} onChange={value => onParamChange('module', value)} />
+    <Slider label="Worm Length (mm)" id="wormLength" min={5} max={120} step={1} value={params.length} onChange={value => onParamChange('length', value)} />
+    <Slider label="Wheel Teeth" id="wheelTeeth" min={10} max={100} step={1} value={params.wheelTeeth} onChange={value => onParamChange('wheelTeeth', value)} isInteger />
+    <Slider label="Wheel Width (mm)" id="wheelWidth" min={2} max={50} step={0.5} value={params.wheelWidth} onChange={value => onParamChange('wheelWidth', value)} />
+    <div className="pt-4 border-t border-gray-700 space-y-1">
+      <Readout label="Ratio (worm : wheel)" value={`${analysis.ratio.toFixed(2)} : 1`} />
+      <Readout label="Worm Pitch Diameter" value={`${analysis.wormPitchDiameter.toFixed(3)} mm`} />
+      <Readout label="Wheel Pitch Diameter" value={`${analysis.wheelPitchDiameter.toFixed(3)} mm`} />
+      <Readout label="Centre Distance" value={`${analysis.centerDistance.toFixed(3)} mm`} />
+      <Readout label="Lead" value={`${analysis.worm.lead.toFixed(3)} mm`} />
+      <Readout label={`Efficiency (μ = ${WORM_FRICTION})`} value={`${(analysis.efficiency * 100).toFixed(0)}%`} />
+      <Readout label="Self-Locking" value={analysis.selfLocking ? 'Yes' : 'No'} />
+    </div>
+    {analysis.warnings.length > 0 && (
+      <ul className="space-y-1 text-sm text-red-300">
+        {analysis.warnings.map(warning => <li key={warning}>{warning}</li>)}
+      </ul>
+    )}
+  </div>
+);
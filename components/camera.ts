@@ -0,0 +1,58 @@
+// Orbit camera for the Gear viewer. The camera circles the centre of the
+// scene's bounds: yaw turns it about the vertical axis, pitch tilts it over
+// the top, zoom scales the distance that frames the whole scene, and pan
+// slides the view across the screen.
+
+export interface CameraState {
+  yaw: number; // radians
+  pitch: number; // radians, positive looks down on the scene
+  zoom: number; // distance as a fraction of the framing distance
+  pan: [number, number]; // view-space offset, in framing distances
+}
+
+export type CameraPreset = 'front' | 'side' | 'iso';
+
+export const CAMERA_PRESETS: Record<CameraPreset, { yaw: number; pitch: number }> = {
+  front: { yaw: 0, pitch: 0 },
+  side: { yaw: -Math.PI / 2, pitch: 0 },
+  // Equal foreshortening of all three axes.
+  iso: { yaw: -Math.PI / 4, pitch: Math.atan(1 / Math.SQRT2) },
+};
+
+export const DEFAULT_CAMERA: CameraState = { yaw: 0, pitch: 0.5, zoom: 1, pan: [0, 0] };
+
+export const FIELD_OF_VIEW = 45 * Math.PI / 180;
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 20;
+// Radians of orbit per pixel dragged.
+const ORBIT_RATE = 0.01;
+
+export const applyPreset = (camera: CameraState, preset: CameraPreset): CameraState => ({
+  ...camera, ...CAMERA_PRESETS[preset], pan: [0, 0],
+});
+
+export const orbitCamera = (camera: CameraState, dx: number, dy: number): CameraState => ({
+  ...camera,
+  yaw: camera.yaw + dx * ORBIT_RATE,
+  pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, camera.pitch + dy * ORBIT_RATE)),
+});
+
+// Values above 1 move the camera away.
+export const zoomCamera = (camera: CameraState, factor: number): CameraState => ({
+  ...camera,
+  zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, camera.zoom * factor)),
+});
+
+/** Pans so the scene follows the pointer; dx and dy are fractions of the viewport height. */
+export const panCamera = (camera: CameraState, dx: number, dy: number): CameraState => {
+  // The view is 2·tan(fov/2) framing distances tall at the target, scaled by zoom.
+  const scale = 2 * Math.tan(FIELD_OF_VIEW / 2) * camera.zoom;
+  return { ...camera, pan: [camera.pan[0] + dx * scale, camera.pan[1] - dy * scale] };
+};
+
+/** The distance at which a sphere of the given radius just fits the view. */
+export const getFramingDistance = (radius: number, aspect: number) => {
+  const halfAngle = Math.min(FIELD_OF_VIEW / 2, Math.atan(Math.tan(FIELD_OF_VIEW / 2) * aspect));
+  return (radius || 1) / Math.sin(halfAngle);
+};
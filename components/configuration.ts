@@ -0,0 +1,247 @@
+// The whole state of the modeller as one value, so it can be written to the
+// URL, saved as a named preset and read back. Saved configurations carry a
+// format version; fields added since a configuration was saved take their
+// defaults, so old links and presets keep loading.
+
+import { InputMode, parseGearParams } from '../core/gearParams';
+import { DEFAULT_MATE_PARAMS, MateParams } from '../core/gearPair';
+import { DEFAULT_PLANETARY_PARAMS, PlanetaryParams } from '../core/planetary';
+import { DEFAULT_LOAD_PARAMS, LoadParams } from '../core/strength';
+import { DEFAULT_WORM_PARAMS, WormParams } from '../core/worm';
+import { BevelParams, DEFAULT_BEVEL_PARAMS } from '../core/bevel';
+import { DEFAULT_TRAIN, TrainGear, TrainLink, createTrainGear } from '../core/gearTrain';
+import { ViewMode } from './scene';
+
+// Version 1 is the first versioned format. Before it, only a gear's
+// parameters were ever saved (in glTF extras), and those load as version 0.
+export const CONFIGURATION_VERSION = 1;
+
+const CONFIGURATION_FORMAT = 'gear-modeler-configuration';
+const PRESET_LIBRARY_FORMAT = 'gear-modeler-presets';
+
+/** Everything undo and redo step through: the gears and what they are set up to do. */
+export interface Design {
+  train: TrainGear[];
+  mate: MateParams;
+  planetary: PlanetaryParams;
+  worm: WormParams;
+  bevel: BevelParams;
+  load: LoadParams;
+  inputRpm: number;
+}
+
+/** A design and how it is being viewed and edited. */
+export interface Configuration extends Design {
+  viewMode: ViewMode;
+  inputMode: InputMode;
+  selectedIndex: number;
+}
+
+export interface Preset {
+  name: string;
+  savedAt: string; // ISO 8601
+  configuration: Configuration;
+}
+
+export const DEFAULT_CONFIGURATION: Configuration = {
+  train: DEFAULT_TRAIN,
+  mate: DEFAULT_MATE_PARAMS,
+  planetary: DEFAULT_PLANETARY_PARAMS,
+  worm: DEFAULT_WORM_PARAMS,
+  bevel: DEFAULT_BEVEL_PARAMS,
+  load: DEFAULT_LOAD_PARAMS,
+  inputRpm: 100,
+  viewMode: 'single',
+  inputMode: 'module',
+  selectedIndex: 0,
+};
+
+const VIEW_MODES: ViewMode[] = ['single', 'pair', 'train', 'planetary', 'worm', 'bevel'];
+const INPUT_MODES: InputMode[] = ['module', 'diametralPitch', 'radius'];
+const TRAIN_LINKS: TrainLink[] = ['input', 'mesh', 'compound'];
+
+// Copies the fields of `raw` that have the same type as the default's, as parseGearParams does.
+const withDefaults = <T extends object>(defaults: T, raw: unknown): T => {
+  const merged = { ...defaults } as Record<string, unknown>;
+  if (typeof raw !== 'object' || raw === null) return merged as T;
+  for (const key of Object.keys(defaults)) {
+    const field = (raw as Record<string, unknown>)[key];
+    if (typeof field === typeof merged[key] && (typeof field !== 'number' || Number.isFinite(field))) {
+      merged[key] = field;
+    }
+  }
+  return merged as T;
+};
+
+const pick = <T>(options: T[], value: unknown, fallback: T): T => (options.includes(value as T) ? value as T : fallback);
+
+const parseTrain = (raw: unknown): TrainGear[] | null => {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const train: TrainGear[] = [];
+  for (const [index, entry] of raw.entries()) {
+    const gear = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    const params = parseGearParams(gear.params);
+    if (!params) return null;
+    // The first gear always sits on the input shaft.
+    const link = index === 0 ? 'input' : pick(TRAIN_LINKS.slice(1), gear.link, 'mesh');
+    const meshAngle = typeof gear.meshAngle === 'number' && Number.isFinite(gear.meshAngle) ? gear.meshAngle : 0;
+    train.push(createTrainGear(params, link, meshAngle));
+  }
+  return train;
+};
+
+// Brings an older configuration up to the current version's shape.
+const migrate = (version: number, raw: Record<string, unknown>): Record<string, unknown> => {
+  if (version === 0) {
+    // A bare set of gear parameters becomes a single-gear design.
+    return { train: [{ params: raw, link: 'input', meshAngle: 0 }] };
+  }
+  return raw;
+};
+
+/**
+ * Reads a saved configuration. Throws with a message for the user when the
+ * value is not one, or was saved by a newer version of the modeller.
+ */
+export const parseConfiguration = (value: unknown): Configuration => {
+  if (typeof value !== 'object' || value === null) throw new Error('Not a gear configuration.');
+  const saved = value as Record<string, unknown>;
+  let version: number, raw: Record<string, unknown>;
+  if (saved.format === CONFIGURATION_FORMAT) {
+    version = typeof saved.version === 'number' ? saved.version : 0;
+    raw = (typeof saved.configuration === 'object' && saved.configuration !== null ? saved.configuration : {}) as Record<string, unknown>;
+  } else if (parseGearParams(saved)) {
+    version = 0;
+    raw = saved;
+  } else {
+    throw new Error('Not a gear configuration.');
+  }
+  if (version > CONFIGURATION_VERSION) {
+    throw new Error(`This configuration was saved by a newer version of the modeller (format ${version}).`);
+  }
+  raw = migrate(version, raw);
+
+  const train = parseTrain(raw.train);
+  if (!train) throw new Error('The configuration has no usable gears.');
+  const selectedIndex = typeof raw.selectedIndex === 'number' ? Math.round(raw.selectedIndex) : 0;
+  const load = withDefaults(DEFAULT_LOAD_PARAMS, raw.load);
+  return {
+    train,
+    mate: withDefaults(DEFAULT_MATE_PARAMS, raw.mate),
+    planetary: withDefaults(DEFAULT_PLANETARY_PARAMS, raw.planetary),
+    worm: withDefaults(DEFAULT_WORM_PARAMS, raw.worm),
+    bevel: withDefaults(DEFAULT_BEVEL_PARAMS, raw.bevel),
+    load: { ...load, mode: pick<LoadParams['mode']>(['torque', 'power'], load.mode, DEFAULT_LOAD_PARAMS.mode) },
+    inputRpm: typeof raw.inputRpm === 'number' && Number.isFinite(raw.inputRpm) ? raw.inputRpm : DEFAULT_CONFIGURATION.inputRpm,
+    viewMode: pick(VIEW_MODES, raw.viewMode, DEFAULT_CONFIGURATION.viewMode),
+    inputMode: pick(INPUT_MODES, raw.inputMode, DEFAULT_CONFIGURATION.inputMode),
+    selectedIndex: Math.max(0, Math.min(train.length - 1, selectedIndex)),
+  };
+};
+
+// The saved form: gear ids are only meaningful within one session.
+const toSaved = (configuration: Configuration) => ({
+  ...configuration,
+  train: configuration.train.map(({ params, link, meshAngle }) => ({ params, link, meshAngle })),
+});
+
+/** The configuration as versioned JSON. */
+export const serializeConfiguration = (configuration: Configuration) => ({
+  format: CONFIGURATION_FORMAT,
+  version: CONFIGURATION_VERSION,
+  configuration: toSaved(configuration),
+});
+
+// --- URLs ---
+// The configuration rides in the URL fragment as base64url-encoded JSON, so
+// it never reaches a server and survives being pasted into chat.
+const HASH_KEY = 'config=';
+
+const toBase64Url = (text: string) => {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const configurationToHash = (configuration: Configuration) =>
+  `#${HASH_KEY}${toBase64Url(JSON.stringify(serializeConfiguration(configuration)))}`;
+
+/** The configuration in a URL fragment, or null when there is none or it cannot be read. */
+export const configurationFromHash = (hash: string): Configuration | null => {
+  const fragment = hash.replace(/^#/, '');
+  if (!fragment.startsWith(HASH_KEY)) return null;
+  try {
+    return parseConfiguration(JSON.parse(fromBase64Url(fragment.slice(HASH_KEY.length))));
+  } catch {
+    return null;
+  }
+};
+
+// --- Preset library ---
+const STORAGE_KEY = 'gear-modeler.presets';
+
+/** The library as versioned JSON, for localStorage and for export. */
+export const serializePresets = (presets: Preset[]) => ({
+  format: PRESET_LIBRARY_FORMAT,
+  version: CONFIGURATION_VERSION,
+  presets: presets.map(({ name, savedAt, configuration }) => ({ name, savedAt, configuration: serializeConfiguration(configuration) })),
+});
+
+/**
+ * Reads a preset library, or a single saved configuration as a one-preset
+ * library named `fallbackName`. Presets that cannot be read are skipped.
+ */
+export const parsePresets = (value: unknown, fallbackName = 'Imported'): Preset[] => {
+  if (typeof value !== 'object' || value === null) throw new Error('Not a preset library.');
+  const saved = value as Record<string, unknown>;
+  if (saved.format !== PRESET_LIBRARY_FORMAT) {
+    return [{ name: fallbackName, savedAt: new Date().toISOString(), configuration: parseConfiguration(value) }];
+  }
+  if (typeof saved.version === 'number' && saved.version > CONFIGURATION_VERSION) {
+    throw new Error(`This preset library was saved by a newer version of the modeller (format ${saved.version}).`);
+  }
+  const presets: Preset[] = [];
+  for (const entry of Array.isArray(saved.presets) ? saved.presets : []) {
+    const preset = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    try {
+      presets.push({
+        name: typeof preset.name === 'string' && preset.name ? preset.name : `Preset ${presets.length + 1}`,
+        savedAt: typeof preset.savedAt === 'string' ? preset.savedAt : new Date().toISOString(),
+        configuration: parseConfiguration(preset.configuration),
+      });
+    } catch {
+      // A damaged preset shouldn't cost the user the rest of the library.
+    }
+  }
+  return presets;
+};
+
+// Storage can be full or disabled (private windows); the library then lives only in memory.
+export const loadStoredPresets = (): Preset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresets(JSON.parse(stored)) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storePresets = (presets: Preset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(serializePresets(presets)));
+  } catch {
+    // See loadStoredPresets.
+  }
+};
+
+/** Adds presets to a library, replacing any of the same name. */
+export const mergePresets = (library: Preset[], added: Preset[]): Preset[] => [
+  ...library.filter(({ name }) => !added.some(preset => preset.name === name)),
+  ...added,
+];
+
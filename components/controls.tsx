@@ -0,0 +1,122 @@
+// Form controls shared by the Configurator panels.
+
+import React from 'react';
+
+// A problem with a slider's value. Without a message it only tints the value,
+// for problems explained under another slider.
+export interface SliderIssue {
+  severity: 'error' | 'warning';
+  message?: string;
+}
+
+interface SliderProps {
+  label: string;
+  id: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  onChange: (value: number) => void;
+  isInteger?: boolean;
+  issues?: SliderIssue[];
+}
+
+const ISSUE_TEXT: Record<SliderIssue['severity'], string> = { error: 'text-red-300', warning: 'text-amber-300' };
+const ISSUE_BADGE: Record<SliderIssue['severity'], string> = {
+  error: 'ring-1 ring-red-400 text-red-300',
+  warning: 'ring-1 ring-amber-500 text-amber-300',
+};
+
+interface OptionGroupProps<T extends string | number> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+interface SelectProps<T extends string> {
+  label: string;
+  id: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+interface ReadoutProps {
+  label: string;
+  value: string;
+}
+
+export const Slider: React.FC<SliderProps> = ({ label, id, min, max, step, value, onChange, isInteger = false, issues = [] }) => {
+  const worst = issues.some(issue => issue.severity === 'error') ? 'error' : issues.length ? 'warning' : null;
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="flex justify-between items-center">
+        <label htmlFor={id} className="font-medium text-gray-300 select-none">{label}</label>
+        <span className={`text-sm font-mono bg-gray-700 px-2 py-1 rounded ${worst ? ISSUE_BADGE[worst] : 'text-amber-300'}`}>
+          {isInteger ? value.toFixed(0) : value.toFixed(2)}
+        </span>
+      </div>
+      <input
+        id={id}
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-amber-400"
+        aria-label={label}
+        aria-invalid={worst === 'error'}
+      />
+      {issues.map(({ severity, message }) => message && (
+        <p key={message} className={`text-xs ${ISSUE_TEXT[severity]}`}>{message}</p>
+      ))}
+    </div>
+  );
+};
+
+export const OptionGroup = <T extends string | number>({ label, options, value, onChange }: OptionGroupProps<T>) => (
+  <div className="flex flex-col space-y-2">
+    <span className="font-medium text-gray-300 select-none">{label}</span>
+    <div className="flex rounded-md overflow-hidden border border-gray-700" role="group" aria-label={label}>
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={`flex-1 px-2 py-1 text-sm font-mono transition-colors duration-200 ${
+            option.value === value ? 'bg-amber-400 text-gray-900' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          }`}
+          aria-pressed={option.value === value}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+// For choices with too many options to fit an OptionGroup's row.
+export const Select = <T extends string>({ label, id, options, value, onChange }: SelectProps<T>) => (
+  <div className="flex flex-col space-y-2">
+    <label htmlFor={id} className="font-medium text-gray-300 select-none">{label}</label>
+    <select
+      id={id}
+      value={value}
+      onChange={e => onChange(e.target.value as T)}
+      className="w-full px-2 py-1 rounded-md border border-gray-700 bg-gray-700 text-sm font-mono text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-400"
+    >
+      {options.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export const Readout: React.FC<ReadoutProps> = ({ label, value }) => (
+  <div className="flex justify-between items-center text-sm">
+    <span className="text-gray-400 select-none">{label}</span>
+    <span className="font-mono text-gray-200">{value}</span>
+  </div>
+);
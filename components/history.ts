@@ -0,0 +1,88 @@
+// Undo and redo for a value that changes through the UI.
+
+import { useCallback, useState } from 'react';
+
+// Oldest states are dropped beyond this many steps back.
+const HISTORY_LIMIT = 100;
+// Changes to the same field closer together than this, in ms, are one step,
+// so dragging a slider undoes in one go rather than tick by tick.
+const MERGE_WINDOW = 500;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // What the last change touched and when, for merging.
+  lastGroup: string | null;
+  lastTime: number;
+}
+
+export interface History<T> {
+  present: T;
+  /**
+   * Applies a change as a new step. Consecutive changes with the same
+   * `group` made within MERGE_WINDOW are merged into one step.
+   */
+  update: (change: (previous: T) => T, group?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const useHistory = <T,>(initial: () => T): History<T> => {
+  const [state, setState] = useState<HistoryState<T>>(() => ({
+    past: [], present: initial(), future: [], lastGroup: null, lastTime: 0,
+  }));
+
+  const update = useCallback((change: (previous: T) => T, group?: string) => {
+    setState(prev => {
+      const present = change(prev.present);
+      if (present === prev.present) return prev;
+      const now = Date.now();
+      const merge = group !== undefined && group === prev.lastGroup && now - prev.lastTime < MERGE_WINDOW;
+      return {
+        past: merge ? prev.past : [...prev.past, prev.present].slice(-HISTORY_LIMIT),
+        present,
+        future: [],
+        lastGroup: group ?? null,
+        lastTime: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastGroup: null,
+        lastTime: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastGroup: null,
+        lastTime: 0,
+      };
+    });
+  }, []);
+
+  return {
+    present: state.present,
+    update,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
@@ -0,0 +1,605 @@
+// A long-lived WebGL renderer for the Gear viewer. It keeps its context and
+// shader program for the life of the canvas, uploads each geometry once and
+// draws the current scene every frame, so changing a gear only costs the
+// upload of the meshes that actually changed.
+
+import { Geometry } from '../core/geometry';
+import { AnimationMode, DisplayMode, SELECTED_COLOR, SceneMesh } from './scene';
+import { CameraState, DEFAULT_CAMERA, FIELD_OF_VIEW, getFramingDistance } from './camera';
+
+// --- WebGL Helper Functions ---
+const createShader = (gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  const success = gl.getShaderParameter(shader, gl.COMPILE_STATUS);
+  if (success) {
+    return shader;
+  }
+  console.error(gl.getShaderInfoLog(shader));
+  gl.deleteShader(shader);
+  return null;
+};
+
+const createProgram = (gl: WebGLRenderingContext, vertexShader: WebGLShader, fragmentShader: WebGLShader): WebGLProgram | null => {
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  const success = gl.getProgramParameter(program, gl.LINK_STATUS);
+  if (success) {
+    return program;
+  }
+  console.error(gl.getProgramInfoLog(program));
+  gl.deleteProgram(program);
+  return null;
+};
+
+// --- Matrix Math Library (mat4) ---
+type Mat4 = number[];
+const mat4 = {
+    create: (): Mat4 => [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1],
+    perspective: (out: Mat4, fovy: number, aspect: number, near: number, far: number): Mat4 => {
+        const f = 1.0 / Math.tan(fovy / 2);
+        out[0] = f / aspect; out[1] = 0; out[2] = 0; out[3] = 0;
+        out[4] = 0; out[5] = f; out[6] = 0; out[7] = 0;
+        out[8] = 0; out[9] = 0; out[11] = -1; out[12] = 0; out[13] = 0; out[15] = 0;
+        if (far != null && far !== Infinity) {
+            const nf = 1 / (near - far);
+            out[10] = (far + near) * nf;
+            out[14] = 2 * far * near * nf;
+        } else {
+            out[10] = -1;
+            out[14] = -2 * near;
+        }
+        return out;
+    },
+    translate: (out: Mat4, a: Mat4, v: number[]): Mat4 => {
+        const x = v[0], y = v[1], z = v[2];
+        if (a === out) {
+            out[12] = a[0] * x + a[4] * y + a[8] * z + a[12];
+            out[13] = a[1] * x + a[5] * y + a[9] * z + a[13];
+            out[14] = a[2] * x + a[6] * y + a[10] * z + a[14];
+            out[15] = a[3] * x + a[7] * y + a[11] * z + a[15];
+        } else {
+            for (let i = 0; i < 12; i++) out[i] = a[i];
+            out[12] = a[0] * x + a[4] * y + a[8] * z + a[12];
+            out[13] = a[1] * x + a[5] * y + a[9] * z + a[13];
+            out[14] = a[2] * x + a[6] * y + a[10] * z + a[14];
+            out[15] = a[3] * x + a[7] * y + a[11] * z + a[15];
+        }
+        return out;
+    },
+    rotate: (out: Mat4, a: Mat4, rad: number, axis: number[]): Mat4 => {
+        let x = axis[0], y = axis[1], z = axis[2];
+        let len = Math.hypot(x, y, z);
+        if (len < 1e-6) {
+             if (a !== out) {
+              for (let i = 0; i < 16; i++) out[i] = a[i];
+            }
+            return out;
+        };
+        len = 1 / len; x *= len; y *= len; z *= len;
+        const s = Math.sin(rad), c = Math.cos(rad), t = 1 - c;
+        const a00 = a[0], a01 = a[1], a02 = a[2], a03 = a[3];
+        const a10 = a[4], a11 = a[5], a12 = a[6], a13 = a[7];
+        const a20 = a[8], a21 = a[9], a22 = a[10], a23 = a[11];
+        const b00 = x * x * t + c, b01 = y * x * t + z * s, b02 = z * x * t - y * s;
+        const b10 = x * y * t - z * s, b11 = y * y * t + c, b12 = z * y * t + x * s;
+        const b20 = x * z * t + y * s, b21 = y * z * t - x * s, b22 = z * z * t + c;
+        out[0] = a00 * b00 + a10 * b01 + a20 * b02;
+        out[1] = a01 * b00 + a11 * b01 + a21 * b02;
+        out[2] = a02 * b00 + a12 * b01 + a22 * b02;
+        out[3] = a03 * b00 + a13 * b01 + a23 * b02;
+        out[4] = a00 * b10 + a10 * b11 + a20 * b12;
+        out[5] = a01 * b10 + a11 * b11 + a21 * b12;
+        out[6] = a02 * b10 + a12 * b11 + a22 * b12;
+        out[7] = a03 * b10 + a13 * b11 + a23 * b12;
+        out[8] = a00 * b20 + a10 * b21 + a20 * b22;
+        out[9] = a01 * b20 + a11 * b21 + a21 * b22;
+        out[10] = a02 * b20 + a12 * b21 + a22 * b22;
+        out[11] = a03 * b20 + a13 * b21 + a23 * b22;
+        if (a !== out) {
+            out[12] = a[12]; out[13] = a[13]; out[14] = a[14]; out[15] = a[15];
+        }
+        return out;
+    },
+    scale: (out: Mat4, a: Mat4, v: number[]): Mat4 => {
+        const x = v[0], y = v[1], z = v[2];
+        for (let i = 0; i < 4; i++) {
+            out[i] = a[i] * x;
+            out[i + 4] = a[i + 4] * y;
+            out[i + 8] = a[i + 8] * z;
+            out[i + 12] = a[i + 12];
+        }
+        return out;
+    },
+};
+
+// --- Shaders ---
+// Values of u_mode. Wireframe lines are drawn unlit.
+const SHADER_MODES = { shaded: 0, flat: 1, normals: 2, unlit: 3 };
+
+const vertexShaderSource = `
+  attribute vec4 a_position;
+  attribute vec3 a_normal;
+
+  uniform mat4 u_modelViewMatrix;
+  uniform mat4 u_projectionMatrix;
+  uniform mat4 u_normalMatrix;
+
+  varying highp vec3 v_position;
+  varying highp vec3 v_normal;
+
+  void main() {
+    vec4 position = u_modelViewMatrix * a_position;
+    v_position = position.xyz;
+    // Normals are directions, so w = 0 keeps any translation out of them.
+    v_normal = (u_normalMatrix * vec4(a_normal, 0.0)).xyz;
+    gl_Position = u_projectionMatrix * position;
+  }
+`;
+
+// Blinn-Phong with a Schlick Fresnel term, lit in linear space from a key light
+// over the viewer's shoulder. Metals take their specular colour from the base
+// colour and have no diffuse; roughness sets the highlight's spread.
+const fragmentShaderSource = `
+  #extension GL_OES_standard_derivatives : enable
+  precision highp float;
+
+  varying highp vec3 v_position;
+  varying highp vec3 v_normal;
+
+  uniform vec3 u_color;
+  uniform float u_metallic;
+  uniform float u_roughness;
+  uniform int u_mode;
+
+  const vec3 LIGHT_DIRECTION = vec3(0.37, 0.74, 0.56);
+  const vec3 LIGHT_COLOR = vec3(1.0, 1.0, 0.92);
+  const vec3 AMBIENT = vec3(0.22, 0.22, 0.26);
+
+  void main() {
+    if (u_mode == ${SHADER_MODES.unlit}) {
+      gl_FragColor = vec4(u_color, 1.0);
+      return;
+    }
+    vec3 normal = normalize(v_normal);
+  #ifdef GL_OES_standard_derivatives
+    if (u_mode == ${SHADER_MODES.flat}) normal = normalize(cross(dFdx(v_position), dFdy(v_position)));
+  #endif
+    if (u_mode == ${SHADER_MODES.normals}) {
+      gl_FragColor = vec4(normal * 0.5 + 0.5, 1.0);
+      return;
+    }
+
+    vec3 base = pow(u_color, vec3(2.2));
+    vec3 view = normalize(-v_position);
+    vec3 halfway = normalize(LIGHT_DIRECTION + view);
+    float diffuse = max(dot(normal, LIGHT_DIRECTION), 0.0);
+
+    float roughness = max(u_roughness, 0.05);
+    float shininess = 2.0 / pow(roughness, 4.0) - 2.0;
+    vec3 f0 = mix(vec3(0.04), base, u_metallic);
+    vec3 fresnel = f0 + (1.0 - f0) * pow(1.0 - max(dot(halfway, view), 0.0), 5.0);
+    // Normalised so rough and polished surfaces reflect the same total light.
+    float specular = pow(max(dot(normal, halfway), 0.0), shininess) * (shininess + 8.0) / 8.0;
+
+    vec3 albedo = base * (1.0 - u_metallic);
+    vec3 color = AMBIENT * (albedo + f0) + LIGHT_COLOR * diffuse * (albedo + fresnel * specular);
+    gl_FragColor = vec4(pow(min(color, 1.0), vec3(1.0 / 2.2)), 1.0);
+  }
+`;
+
+// --- Renderer ---
+// Radians per millisecond of the turntable spin; the drive angle runs twice as fast.
+const SPIN_RATE = 0.0003;
+
+// The vertex count 16-bit indices can address in one draw.
+const MAX_SHORT_INDEXED = 65536;
+
+// Buffers for one draw call: a whole mesh, or one piece of it.
+interface BufferChunk {
+  geometry: Geometry;
+  positionBuffer: WebGLBuffer | null;
+  normalBuffer: WebGLBuffer | null;
+  indexBuffer: WebGLBuffer | null;
+  indexType: number;
+  // Every triangle edge once, built the first time the mesh is drawn as a wireframe.
+  lineBuffer: WebGLBuffer | null;
+  lineCount: number;
+}
+
+interface GeometryBuffers {
+  chunks: BufferChunk[];
+  // Reach from the mesh's own axis, for fitting the view.
+  radius: number;
+  halfSize: number[];
+}
+
+export interface Renderer {
+  setScene: (meshes: SceneMesh[]) => void;
+  setAnimation: (animation: AnimationMode, driveRange?: number) => void;
+  setPaused: (paused: boolean) => void;
+  setDisplayMode: (mode: DisplayMode) => void;
+  getCamera: () => CameraState;
+  setCamera: (camera: CameraState) => void;
+  dispose: () => void;
+}
+
+interface GLState {
+  gl: WebGLRenderingContext;
+  program: WebGLProgram;
+  vertexShader: WebGLShader;
+  fragmentShader: WebGLShader;
+  uintIndices: boolean;
+  attributes: { position: number; normal: number };
+  uniforms: Record<
+    'projection' | 'modelView' | 'normal' | 'color' | 'metallic' | 'roughness' | 'mode',
+    WebGLUniformLocation | null
+  >;
+}
+
+const initGL = (gl: WebGLRenderingContext): GLState | null => {
+  // Dense helical gears can run past 65,536 vertices; WebGL 1 needs this extension to index
+  // them in one draw, and without it draws them in pieces.
+  const uintIndices = gl.getExtension('OES_element_index_uint') !== null;
+  // Flat shading takes face normals from screen-space derivatives; without
+  // the extension it falls back to smooth shading.
+  gl.getExtension('OES_standard_derivatives');
+
+  const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+  const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+  if (!vertexShader || !fragmentShader) return null;
+
+  const program = createProgram(gl, vertexShader, fragmentShader);
+  if (!program) return null;
+
+  gl.clearColor(0.972, 0.961, 0.941, 0.0);
+  gl.enable(gl.DEPTH_TEST);
+  gl.enable(gl.CULL_FACE);
+
+  gl.useProgram(program);
+  const attributes = {
+    position: gl.getAttribLocation(program, "a_position"),
+    normal: gl.getAttribLocation(program, "a_normal"),
+  };
+  gl.enableVertexAttribArray(attributes.position);
+  gl.enableVertexAttribArray(attributes.normal);
+
+  return {
+    gl, program, vertexShader, fragmentShader, uintIndices, attributes,
+    uniforms: {
+      projection: gl.getUniformLocation(program, "u_projectionMatrix"),
+      modelView: gl.getUniformLocation(program, "u_modelViewMatrix"),
+      normal: gl.getUniformLocation(program, "u_normalMatrix"),
+      color: gl.getUniformLocation(program, "u_color"),
+      metallic: gl.getUniformLocation(program, "u_metallic"),
+      roughness: gl.getUniformLocation(program, "u_roughness"),
+      mode: gl.getUniformLocation(program, "u_mode"),
+    },
+  };
+};
+
+// Splits a mesh into pieces of whole triangles, each using few enough
+// vertices for 16-bit indices. Vertices shared across a split are copied.
+const splitGeometry = (geometry: Geometry): Geometry[] => {
+  if (geometry.vertices.length / 3 <= MAX_SHORT_INDEXED) return [geometry];
+  const pieces: Geometry[] = [];
+  let piece: Geometry = { vertices: [], normals: [], indices: [] };
+  let local = new Map<number, number>();
+  for (let i = 0; i < geometry.indices.length; i += 3) {
+    if (local.size + 3 > MAX_SHORT_INDEXED) {
+      pieces.push(piece);
+      piece = { vertices: [], normals: [], indices: [] };
+      local = new Map();
+    }
+    for (let j = 0; j < 3; j++) {
+      const index = geometry.indices[i + j];
+      let mapped = local.get(index);
+      if (mapped === undefined) {
+        mapped = local.size;
+        local.set(index, mapped);
+        piece.vertices.push(...geometry.vertices.slice(3 * index, 3 * index + 3));
+        piece.normals.push(...geometry.normals.slice(3 * index, 3 * index + 3));
+      }
+      piece.indices.push(mapped);
+    }
+  }
+  pieces.push(piece);
+  return pieces;
+};
+
+const uploadChunk = (gl: WebGLRenderingContext, geometry: Geometry, wideIndices: boolean): BufferChunk => {
+  const positionBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(geometry.vertices), gl.STATIC_DRAW);
+
+  const normalBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, normalBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(geometry.normals), gl.STATIC_DRAW);
+
+  const indexBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+  gl.bufferData(
+    gl.ELEMENT_ARRAY_BUFFER,
+    wideIndices ? new Uint32Array(geometry.indices) : new Uint16Array(geometry.indices),
+    gl.STATIC_DRAW
+  );
+
+  return {
+    geometry, positionBuffer, normalBuffer, indexBuffer, indexType: wideIndices ? gl.UNSIGNED_INT : gl.UNSIGNED_SHORT,
+    lineBuffer: null, lineCount: 0,
+  };
+};
+
+const uploadGeometry = ({ gl, uintIndices }: GLState, geometry: Geometry): GeometryBuffers => {
+  // Without 32-bit indices, a mesh too large for 16-bit ones is drawn in pieces.
+  const large = geometry.vertices.length / 3 > MAX_SHORT_INDEXED;
+  const chunks = uintIndices
+    ? [uploadChunk(gl, geometry, large)]
+    : splitGeometry(geometry).map(piece => uploadChunk(gl, piece, false));
+
+  let radius = 0;
+  const halfSize = [0, 0, 0];
+  for (let i = 0; i < geometry.vertices.length; i += 3) {
+    radius = Math.max(radius, Math.hypot(geometry.vertices[i], geometry.vertices[i + 1]));
+    for (let j = 0; j < 3; j++) halfSize[j] = Math.max(halfSize[j], Math.abs(geometry.vertices[i + j]));
+  }
+
+  return { chunks, radius, halfSize };
+};
+
+// WebGL has no polygon mode, so a wireframe is drawn as lines along the triangle edges.
+const uploadLines = (gl: WebGLRenderingContext, buffers: BufferChunk) => {
+  const { geometry } = buffers;
+  const vertexCount = geometry.vertices.length / 3;
+  const seen = new Set<number>();
+  const lines: number[] = [];
+  for (let i = 0; i < geometry.indices.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const a = geometry.indices[i + j], b = geometry.indices[i + (j + 1) % 3];
+      const key = Math.min(a, b) * vertexCount + Math.max(a, b);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      lines.push(a, b);
+    }
+  }
+  buffers.lineBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, buffers.lineBuffer);
+  gl.bufferData(
+    gl.ELEMENT_ARRAY_BUFFER,
+    buffers.indexType === gl.UNSIGNED_INT ? new Uint32Array(lines) : new Uint16Array(lines),
+    gl.STATIC_DRAW
+  );
+  buffers.lineCount = lines.length;
+};
+
+const deleteGeometry = (gl: WebGLRenderingContext, buffers: GeometryBuffers) => {
+  for (const chunk of buffers.chunks) {
+    gl.deleteBuffer(chunk.positionBuffer);
+    gl.deleteBuffer(chunk.normalBuffer);
+    gl.deleteBuffer(chunk.indexBuffer);
+    gl.deleteBuffer(chunk.lineBuffer);
+  }
+};
+
+/** Starts drawing into the canvas. Returns null when WebGL is unavailable. */
+export const createRenderer = (canvas: HTMLCanvasElement): Renderer | null => {
+  const gl = canvas.getContext('webgl', { antialias: true });
+  if (!gl) {
+    console.error("WebGL not supported");
+    return null;
+  }
+
+  let state = initGL(gl);
+  // Buffers are keyed by geometry object, so a scene that reuses a geometry reuses its upload.
+  let uploads = new Map<Geometry, GeometryBuffers>();
+  let meshes: SceneMesh[] = [];
+  let animation: AnimationMode = 'turntable';
+  let driveRange: number | undefined;
+  let paused = false;
+  let displayMode: DisplayMode = 'shaded';
+  let camera = DEFAULT_CAMERA;
+  let clock = 0;
+  let center = [0, 0, 0];
+  let extent = 1;
+
+  const fitBounds = () => {
+    // Fit the whole scene into the view regardless of its size in millimetres.
+    // Each mesh is bounded by a cylinder about its axis so the fit holds while it turns.
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (const { geometry, position: rest, travel, orbit, tilt } of meshes) {
+      const upload = uploads.get(geometry);
+      if (!upload) continue;
+      const { radius, halfSize } = upload;
+      // A sliding mesh never turns, so its own size is enough. An orbiting one
+      // sweeps a circle about the scene's axis instead of its own.
+      const orbitRadius = orbit ? Math.hypot(rest[0], rest[1]) : 0;
+      const position = orbit ? [0, 0, rest[2]] : rest;
+      // A tilted mesh could point its cylinder any way, so it gets the sphere around it.
+      const sphere = Math.hypot(radius, halfSize[2]);
+      const reach = travel ? halfSize
+        : tilt ? [sphere + orbitRadius, sphere + orbitRadius, sphere]
+        : [radius + orbitRadius, radius + orbitRadius, halfSize[2]];
+      for (let j = 0; j < 3; j++) {
+        min[j] = Math.min(min[j], position[j] - reach[j]);
+        max[j] = Math.max(max[j], position[j] + reach[j]);
+      }
+    }
+    if (min[0] === Infinity) return;
+    center = min.map((v, j) => (v + max[j]) / 2);
+    extent = Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2 || 1;
+  };
+
+  // Uploads what the scene needs and frees what it no longer uses.
+  const syncBuffers = () => {
+    if (!state) return;
+    const next = new Map<Geometry, GeometryBuffers>();
+    for (const { geometry } of meshes) {
+      if (next.has(geometry)) continue;
+      next.set(geometry, uploads.get(geometry) ?? uploadGeometry(state, geometry));
+    }
+    for (const [geometry, buffers] of uploads) {
+      if (!next.has(geometry)) deleteGeometry(gl, buffers);
+    }
+    uploads = next;
+    fitBounds();
+  };
+
+  // Match the drawing buffer to the canvas's size on screen.
+  const resize = () => {
+    const dpr = window.devicePixelRatio || 1;
+    const width = Math.max(1, Math.round(canvas.clientWidth * dpr));
+    const height = Math.max(1, Math.round(canvas.clientHeight * dpr));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+  };
+  const resizeObserver = new ResizeObserver(resize);
+  resizeObserver.observe(canvas);
+  resize();
+
+  let lastTime: number | null = null;
+  let animationFrameId = 0;
+
+  const render = (time: number) => {
+    animationFrameId = requestAnimationFrame(render);
+    if (!state) return;
+    const { uniforms, attributes } = state;
+
+    const elapsed = lastTime === null ? 0 : time - lastTime;
+    lastTime = time;
+    if (!paused) {
+      clock += elapsed;
+      // The turntable is the camera circling the scene.
+      if (animation === 'turntable') camera = { ...camera, yaw: camera.yaw + elapsed * SPIN_RATE };
+    }
+
+    gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+
+    // FIX: Use `gl.canvas.width` and `gl.canvas.height` instead of `clientWidth` and `clientHeight`.
+    // The `gl.canvas` property is typed as `HTMLCanvasElement | OffscreenCanvas`, and `OffscreenCanvas`
+    // does not have `clientWidth` or `clientHeight`. Using `width` and `height` works for both,
+    // and correctly represents the aspect ratio of the drawing buffer.
+    const aspect = gl.canvas.width / gl.canvas.height;
+    // Frame the scene's bounding sphere, then let the camera's zoom scale the distance.
+    const framing = getFramingDistance(extent, aspect);
+    const distance = framing * camera.zoom;
+    const projectionMatrix = mat4.create();
+    mat4.perspective(projectionMatrix, FIELD_OF_VIEW, aspect, extent * 0.01, distance + extent * 4);
+    gl.uniformMatrix4fv(uniforms.projection, false, projectionMatrix);
+
+    // In drive mode the drive angle turns the gears about their own axes.
+    const rotation = clock * SPIN_RATE;
+    const driveAngle = animation !== 'drive' ? 0
+      : driveRange ? driveRange * Math.sin(rotation * 2 / driveRange)
+      : rotation * 2;
+
+    for (const mesh of meshes) {
+      const buffers = uploads.get(mesh.geometry);
+      if (!buffers) continue;
+      const { travel } = mesh;
+      const angle = mesh.phase + mesh.speed * driveAngle;
+      let position = travel ? mesh.position.map((v, j) => v + travel[j] * driveAngle) : mesh.position;
+      if (mesh.orbit) {
+        const turn = mesh.orbit * driveAngle, c = Math.cos(turn), s = Math.sin(turn);
+        position = [position[0] * c - position[1] * s, position[0] * s + position[1] * c, position[2]];
+      }
+
+      const modelViewMatrix = mat4.create();
+      mat4.translate(modelViewMatrix, modelViewMatrix, [camera.pan[0] * framing, camera.pan[1] * framing, -distance]);
+      mat4.rotate(modelViewMatrix, modelViewMatrix, camera.pitch, [1, 0, 0]);
+      mat4.rotate(modelViewMatrix, modelViewMatrix, camera.yaw, [0, 1, 0]);
+      mat4.translate(modelViewMatrix, modelViewMatrix, position.map((v, j) => v - center[j]));
+      if (mesh.tilt) mat4.rotate(modelViewMatrix, modelViewMatrix, mesh.tilt.angle, mesh.tilt.axis);
+      mat4.rotate(modelViewMatrix, modelViewMatrix, angle, [0, 0, 1]);
+      gl.uniformMatrix4fv(uniforms.modelView, false, modelViewMatrix);
+
+      const normalMatrix = mat4.create();
+      mat4.rotate(normalMatrix, normalMatrix, camera.pitch, [1, 0, 0]);
+      mat4.rotate(normalMatrix, normalMatrix, camera.yaw, [0, 1, 0]);
+      if (mesh.tilt) mat4.rotate(normalMatrix, normalMatrix, mesh.tilt.angle, mesh.tilt.axis);
+      mat4.rotate(normalMatrix, normalMatrix, angle, [0, 0, 1]);
+      gl.uniformMatrix4fv(uniforms.normal, false, normalMatrix);
+
+      const { color, metallic, roughness } = mesh.material;
+      gl.uniform3fv(uniforms.color, mesh.selected ? color.map((c, j) => (c + SELECTED_COLOR[j]) / 2) : color);
+      gl.uniform1f(uniforms.metallic, metallic);
+      gl.uniform1f(uniforms.roughness, roughness);
+
+      gl.uniform1i(uniforms.mode, SHADER_MODES[displayMode === 'wireframe' ? 'unlit' : displayMode]);
+      for (const chunk of buffers.chunks) {
+        gl.bindBuffer(gl.ARRAY_BUFFER, chunk.positionBuffer);
+        gl.vertexAttribPointer(attributes.position, 3, gl.FLOAT, false, 0, 0);
+        gl.bindBuffer(gl.ARRAY_BUFFER, chunk.normalBuffer);
+        gl.vertexAttribPointer(attributes.normal, 3, gl.FLOAT, false, 0, 0);
+
+        if (displayMode === 'wireframe') {
+          if (!chunk.lineBuffer) uploadLines(gl, chunk);
+          gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, chunk.lineBuffer);
+          gl.drawElements(gl.LINES, chunk.lineCount, chunk.indexType, 0);
+        } else {
+          gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, chunk.indexBuffer);
+          gl.drawElements(gl.TRIANGLES, chunk.geometry.indices.length, chunk.indexType, 0);
+        }
+      }
+    }
+  };
+
+  // A lost context takes every GL object with it; drop the handles and
+  // rebuild them all once the browser restores the context.
+  const onContextLost = (e: Event) => {
+    e.preventDefault();
+    state = null;
+    uploads = new Map();
+  };
+  const onContextRestored = () => {
+    state = initGL(gl);
+    syncBuffers();
+  };
+  canvas.addEventListener('webglcontextlost', onContextLost);
+  canvas.addEventListener('webglcontextrestored', onContextRestored);
+
+  animationFrameId = requestAnimationFrame(render);
+
+  return {
+    setScene: next => {
+      meshes = next;
+      syncBuffers();
+    },
+    setAnimation: (nextAnimation, nextDriveRange) => {
+      animation = nextAnimation;
+      driveRange = nextDriveRange;
+    },
+    setPaused: next => {
+      paused = next;
+    },
+    setDisplayMode: next => {
+      displayMode = next;
+    },
+    getCamera: () => camera,
+    setCamera: next => {
+      camera = next;
+    },
+    dispose: () => {
+      cancelAnimationFrame(animationFrameId);
+      resizeObserver.disconnect();
+      canvas.removeEventListener('webglcontextlost', onContextLost);
+      canvas.removeEventListener('webglcontextrestored', onContextRestored);
+      if (state) {
+        for (const buffers of uploads.values()) deleteGeometry(gl, buffers);
+        gl.deleteProgram(state.program);
+        gl.deleteShader(state.vertexShader);
+        gl.deleteShader(state.fragmentShader);
+      }
+      uploads = new Map();
+      state = null;
+    },
+  };
+};
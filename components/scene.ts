@@ -0,0 +1,49 @@
+// What the Gear viewer draws: a set of meshes, each turning about its own
+// axis in step with a shared drive angle.
+
+import { Profile2D } from '../core/extrude';
+import { Color, Geometry, Tilt } from '../core/geometry';
+import { GearParams } from '../core/gearParams';
+import { Material } from '../core/materials';
+import { BevelGearSpec } from '../core/bevel';
+import { CarrierSpec } from '../core/planetary';
+import { WormSpec, WormWheelSpec } from '../core/worm';
+
+// Tint of the gear being edited in the train view.
+export const SELECTED_COLOR: Color = [0.95, 0.75, 0.3];
+
+// Meshes imported for comparison, which carry no material of their own.
+export const COMPARISON_MATERIAL: Material = { name: 'Imported', color: [0.7, 0.7, 0.7], metallic: 0, roughness: 0.7, density: 1 };
+
+export interface SceneMesh {
+  name: string;
+  geometry: Geometry;
+  position: [number, number, number];
+  // Angle about the mesh's z axis when the drive angle is zero, in radians.
+  phase: number;
+  // Turns of this mesh per turn of the driver; negative is clockwise.
+  speed: number;
+  // Millimetres the mesh slides per radian of the drive angle, for racks.
+  travel?: [number, number, number];
+  // Turns of the mesh's position about the scene's z axis per turn of the driver, for planets.
+  orbit?: number;
+  // Points the mesh's axis away from the scene's z axis, for a worm or a bevel gear.
+  tilt?: Tilt;
+  material: Material;
+  // Drawn tinted with SELECTED_COLOR; exports ignore it.
+  selected?: boolean;
+  // The flat outline of the part, for 2D export.
+  profile?: Profile2D;
+  // What the part was built from, recorded in 3D exports.
+  source?: { gear: GearParams } | { carrier: CarrierSpec } | { worm: WormSpec } | { wormWheel: WormWheelSpec }
+    | { bevel: BevelGearSpec };
+}
+
+// 'turntable' spins the whole scene for inspection; 'drive' turns each mesh about its own axis.
+export type AnimationMode = 'turntable' | 'drive';
+
+// 'shaded' is smooth per-pixel lighting, 'flat' lights each face with its own
+// plane, and 'normals' draws the view-space normal as a colour for debugging.
+export type DisplayMode = 'shaded' | 'flat' | 'wireframe' | 'normals';
+
+export type ViewMode = 'single' | 'pair' | 'train' | 'planetary' | 'worm' | 'bevel';
@@ -0,0 +1,112 @@
+// Fit allowances, which move a gear's outline off its nominal shape so that
+// the part fits once it is made. Backlash thins the teeth so mating flanks
+// have play, printer clearance takes back what a printer's XY oversize adds,
+// and kerf moves the cut outward by half the laser's cut width so the part
+// comes off the sheet at size. The bore has an allowance of its own.
+
+import { GearParams, isChainOrBelt } from './gearParams';
+import { Point2 } from './toothProfile';
+
+// Sharp corners are offset by at most this many times the offset distance.
+const MITER_LIMIT = 4;
+// How many points ahead a collapsed arc's loop is looked for.
+const LOOP_REACH = 24;
+
+/**
+ * Circumferential thinning of each tooth on the pitch circle, from the
+ * backlash allowance. A normal allowance is converted through the pressure
+ * angle; sprockets and pulleys have none, so theirs are the same.
+ */
+export const getBacklashThinning = (params: GearParams): number => {
+  if (params.backlashMode === 'circumferential' || isChainOrBelt(params.gearType)) return params.backlash;
+  return params.backlash / Math.cos(params.pressureAngle * Math.PI / 180);
+};
+
+/**
+ * How far the toothed outline moves, normal to itself, away from the
+ * material; negative values move it into the material. Each flank takes half
+ * the backlash, measured normal to it.
+ */
+export const getFlankOffset = (params: GearParams): number => {
+  const alpha = isChainOrBelt(params.gearType) ? 0 : params.pressureAngle * Math.PI / 180;
+  return params.kerf / 2 - params.printClearance - getBacklashThinning(params) * Math.cos(alpha) / 2;
+};
+
+/** How far the web's cutouts shrink from every side: half the kerf, so they come off the sheet at size. */
+export const getCutoutInset = (params: GearParams): number => params.kerf / 2;
+
+/** How far the bore's outline moves outward: half its fit allowance, less half the kerf. */
+export const getBoreOffset = (params: GearParams): number => (params.boreAllowance - params.kerf) / 2;
+
+// Where segments ab and cd cross, or null when they do not.
+const intersect = (a: Point2, b: Point2, c: Point2, d: Point2): Point2 | null => {
+  const [ux, uy, vx, vy] = [b[0] - a[0], b[1] - a[1], d[0] - c[0], d[1] - c[1]];
+  const denominator = ux * vy - uy * vx;
+  if (denominator === 0) return null;
+  const t = ((c[0] - a[0]) * vy - (c[1] - a[1]) * vx) / denominator;
+  const u = ((c[0] - a[0]) * uy - (c[1] - a[1]) * ux) / denominator;
+  return t > 0 && t < 1 && u > 0 && u < 1 ? [a[0] + t * ux, a[1] + t * uy] : null;
+};
+
+/**
+ * Moves every point of an outline `distance` to the right of the direction
+ * it is drawn in, which is outward for a counter-clockwise loop. Corners are
+ * mitred, and open outlines keep their ends square to the first and last
+ * edges. Arcs tighter than the distance collapse, and the small loops they
+ * would leave are cut out.
+ */
+export const offsetOutline = (outline: Point2[], distance: number, closed = true): Point2[] => {
+  if (distance === 0) return outline;
+  const count = outline.length;
+  const normal = (from: Point2, to: Point2): Point2 => {
+    const length = Math.hypot(to[0] - from[0], to[1] - from[1]) || 1;
+    return [(to[1] - from[1]) / length, -(to[0] - from[0]) / length];
+  };
+  const moved = outline.map((p, i): Point2 => {
+    const hasPrev = closed || i > 0, hasNext = closed || i < count - 1;
+    const before = hasPrev ? normal(outline[(i - 1 + count) % count], p) : null;
+    const after = hasNext ? normal(p, outline[(i + 1) % count]) : null;
+    const [n1, n2] = [before ?? after, after ?? before] as [Point2, Point2];
+    // The mitre (n1 + n2) / (1 + n1·n2) is the unit normal on a straight run and lengthens at corners.
+    const sum: Point2 = [n1[0] + n2[0], n1[1] + n2[1]];
+    const scale = Math.min(1 / Math.max(1e-9, 1 + n1[0] * n2[0] + n1[1] * n2[1]), MITER_LIMIT / (Math.hypot(...sum) || 1));
+    return [p[0] + distance * sum[0] * scale, p[1] + distance * sum[1] * scale];
+  });
+  // Cut out each loop where the offset outline crosses itself within a few points.
+  const kept: Point2[] = [];
+  for (let i = 0; i < count; i++) {
+    kept.push(moved[i]);
+    for (let j = i + 2; j < Math.min(count - 1, i + LOOP_REACH); j++) {
+      const crossing = intersect(moved[i], moved[i + 1], moved[j], moved[j + 1]);
+      if (crossing) {
+        kept.push(crossing);
+        i = j;
+        break;
+      }
+    }
+  }
+  return kept;
+};
+
+/** True when any two edges of a closed outline cross, other than neighbours meeting at a point. */
+export const crossesItself = (outline: Point2[]): boolean => {
+  const count = outline.length;
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 2; j < count - (i === 0 ? 1 : 0); j++) {
+      if (intersect(outline[i], outline[i + 1], outline[j], outline[(j + 1) % count])) return true;
+    }
+  }
+  return false;
+};
+
+const mm = (value: number) => `${Number(value.toFixed(3))} mm`;
+
+/** The allowances a gear was made with, for recording in exported files; null when it has none. */
+export const describeAllowances = (params: GearParams): string | null => {
+  const parts: string[] = [];
+  if (params.backlash !== 0) parts.push(`backlash ${mm(params.backlash)} ${params.backlashMode}`);
+  if (params.printClearance !== 0) parts.push(`XY clearance ${mm(params.printClearance)}`);
+  if (params.kerf !== 0) parts.push(`kerf ${mm(params.kerf)}`);
+  if (params.boreAllowance !== 0) parts.push(`bore allowance ${mm(params.boreAllowance)}`);
+  return parts.length ? parts.join(', ') : null;
+};
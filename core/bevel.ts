@@ -0,0 +1,150 @@
+// Straight bevel gears: a pinion and a gear on shafts whose axes meet at the
+// shaft angle. Each is cut on a pitch cone whose apex is that meeting point,
+// and the cones roll on each other along a common line, so every tooth
+// tapers from the heel (the outer end) towards the apex.
+
+import { GearParams } from './gearParams';
+import { Tilt } from './geometry';
+import { ToothSpec, getToothRadii } from './toothProfile';
+
+export interface BevelParams {
+  shaftAngle: number; // degrees, between the two axes
+  pinionTeeth: number;
+  gearTeeth: number;
+  faceWidth: number; // along the cone, from the heel inwards
+}
+
+export const DEFAULT_BEVEL_PARAMS: BevelParams = {
+  shaftAngle: 90,
+  pinionTeeth: 20,
+  gearTeeth: 30,
+  faceWidth: 6,
+};
+
+// Past this a pitch cone is nearly flat, and at 90° it becomes a crown gear.
+const MAX_PITCH_ANGLE = 85;
+
+// Material under the roots at the heel, in modules along the back cone.
+const RIM_DEPTH = 1;
+
+// Teeth longer than a third of the cone distance shrink too much towards the apex to be cut.
+const MAX_FACE_FRACTION = 1 / 3;
+
+/**
+ * One gear of the pair, in its own frame: the axis is z, the heel's pitch
+ * circle lies on z = 0 and the teeth run towards the cone's apex on +z. The
+ * module and tooth proportions are those at the heel.
+ */
+export interface BevelGearSpec extends ToothSpec {
+  pitchAngle: number; // degrees, the pitch cone's half angle
+  coneDistance: number; // from the apex to the heel's pitch circle
+  faceWidth: number;
+  rimRadius: number; // where the back cone meets the flat back face
+  boreRadius: number;
+}
+
+export interface BevelAnalysis {
+  pinion: BevelGearSpec;
+  gear: BevelGearSpec;
+  ratio: number; // pinion turns per gear turn
+  shaftAngle: number; // degrees, as built
+  coneDistance: number;
+  pinionPitchDiameter: number;
+  gearPitchDiameter: number;
+  pinionPosition: [number, number, number];
+  gearPosition: [number, number, number];
+  gearTilt: Tilt;
+  pinionPhase: number;
+  gearPhase: number;
+  gearSpeed: number; // turns per turn of the pinion
+  warnings: string[];
+}
+
+const DEG = Math.PI / 180;
+
+/**
+ * Sizes a bevel pair cut with the module, tooth system and material of
+ * `base`. The cones' common apex is the origin: the pinion's axis is z, with
+ * its body below the apex, and the gear lies towards −x with its axis at the
+ * shaft angle to the pinion's.
+ */
+export const analyzeBevel = (base: GearParams, params: BevelParams): BevelAnalysis => {
+  const warnings: string[] = [];
+  const z1 = Math.round(params.pinionTeeth);
+  const z2 = Math.round(params.gearTeeth);
+  const m = base.module;
+
+  // The cones roll without slipping, so sin δ1 / sin δ2 = z1 / z2 with δ1 + δ2 = Σ.
+  let shaftAngle = params.shaftAngle;
+  let pinionAngle = Math.atan2(Math.sin(shaftAngle * DEG), z2 / z1 + Math.cos(shaftAngle * DEG)) / DEG;
+  let gearAngle = shaftAngle - pinionAngle;
+  if (Math.max(pinionAngle, gearAngle) > MAX_PITCH_ANGLE) {
+    const [small, large] = z1 < z2 ? [z1, z2] : [z2, z1];
+    const smallAngle = Math.asin(small / large * Math.sin(MAX_PITCH_ANGLE * DEG)) / DEG;
+    [pinionAngle, gearAngle] = z1 < z2 ? [smallAngle, MAX_PITCH_ANGLE] : [MAX_PITCH_ANGLE, smallAngle];
+    shaftAngle = pinionAngle + gearAngle;
+    warnings.push(`The shaft angle is cut back to ${shaftAngle.toFixed(1)}°, beyond which the larger gear flattens into a crown gear.`);
+  }
+
+  const pinionPitchRadius = m * z1 / 2;
+  const coneDistance = pinionPitchRadius / Math.sin(pinionAngle * DEG);
+  const maxFace = MAX_FACE_FRACTION * coneDistance;
+  if (params.faceWidth > maxFace) {
+    warnings.push(`The face width is cut back to ${maxFace.toFixed(1)} mm, a third of the cone distance.`);
+  }
+  const faceWidth = Math.min(params.faceWidth, maxFace);
+
+  const tooth: ToothSpec = {
+    profile: base.profile,
+    module: m,
+    teeth: z1,
+    pressureAngle: base.pressureAngle,
+    profileShift: 0,
+    addendum: base.addendum,
+    dedendum: base.dedendum,
+  };
+  const member = (name: string, teeth: number, pitchAngle: number): BevelGearSpec => {
+    const pitchRadius = getToothRadii({ ...tooth, teeth }).pitchRadius;
+    const rimRadius = pitchRadius - (base.dedendum + RIM_DEPTH) * m * Math.cos(pitchAngle * DEG);
+    // The bore runs the full length of the body, so it has to leave a wall at the toe.
+    const toeRim = rimRadius * (1 - faceWidth / coneDistance);
+    const boreRadius = Math.min(base.innerRadius, toeRim / 2);
+    if (boreRadius < base.innerRadius) {
+      warnings.push(`The ${name}'s bore is cut down to ${(2 * boreRadius).toFixed(1)} mm to leave a wall under its teeth at the toe.`);
+    }
+    return { ...tooth, teeth, pitchAngle, coneDistance, faceWidth, rimRadius, boreRadius };
+  };
+  const pinion = member('pinion', z1, pinionAngle);
+  const gear = member('gear', z2, gearAngle);
+
+  // Bevel teeth undercut like those of the spur gear on their back cone.
+  const alpha = base.pressureAngle * DEG;
+  const minVirtualTeeth = 2 * base.addendum / Math.sin(alpha) ** 2;
+  if (Math.min(z1 / Math.cos(pinionAngle * DEG), z2 / Math.cos(gearAngle * DEG)) < minVirtualTeeth - 1e-9) {
+    warnings.push(`The ${z1 <= z2 ? 'pinion' : 'gear'} is undercut; give it more teeth or use a larger pressure angle.`);
+  }
+
+  // Each apex sits R cos δ up its own axis from the heel, and is moved onto the origin.
+  const gearAxis: [number, number, number] = [Math.sin(shaftAngle * DEG), 0, Math.cos(shaftAngle * DEG)];
+  const gearApex = coneDistance * Math.cos(gearAngle * DEG);
+
+  // The cones touch along the line leaning from the pinion's axis towards
+  // −x. A pinion tooth centred there, at angle π in its own frame, has to
+  // face a gear space, which the gear sees at angle 0 in its frame.
+  return {
+    pinion,
+    gear,
+    ratio: z2 / z1,
+    shaftAngle,
+    coneDistance,
+    pinionPitchDiameter: 2 * pinionPitchRadius,
+    gearPitchDiameter: m * z2,
+    pinionPosition: [0, 0, -coneDistance * Math.cos(pinionAngle * DEG)],
+    gearPosition: [-gearApex * gearAxis[0], 0, -gearApex * gearAxis[2]],
+    gearTilt: { axis: [0, 1, 0], angle: shaftAngle * DEG },
+    pinionPhase: Math.PI,
+    gearPhase: -Math.PI / z2,
+    gearSpeed: -z1 / z2,
+    warnings,
+  };
+};
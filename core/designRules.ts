@@ -0,0 +1,222 @@
+// Design rules for a single gear: checks that the parameters describe teeth
+// that can be cut, will mesh and will hold together, and, for printed
+// materials, that the features are large enough to print. Each violation
+// names the fields that can fix it so the Configurator can show it beside them.
+
+import { GearParams, RadiusSet, getGearRadii } from './gearParams';
+import { HubLayout, getHubLayout } from './hub';
+import { crossesItself, getFlankOffset, offsetOutline } from './allowance';
+import { createSprocketOutline } from './sprocket';
+import { BELT_PROFILES, createPulleyOutline } from './pulley';
+import {
+  createInternalOutline, createToothOutline, getPitchThickness, getToothRadii, Point2,
+} from './toothProfile';
+
+export type RuleSeverity = 'error' | 'warning';
+
+// A Configurator field: a gear parameter, or a radius in the Radii view.
+export type RuleField = keyof GearParams | keyof RadiusSet;
+
+export interface RuleViolation {
+  severity: RuleSeverity;
+  message: string;
+  fields: RuleField[];
+}
+
+type AddViolation = (severity: RuleSeverity, message: string, fields: RuleField[]) => void;
+
+// Below this ratio of rim thickness to tooth height the rim flexes under the
+// tooth load and cracks at the root (the backup ratio of ISO 6336-3).
+const MIN_BACKUP_RATIO = 1.2;
+// Top lands narrower than this, in modules, are weak and chip.
+const MIN_TOP_LAND = 0.25;
+// Two extrusion widths of a 0.4 mm nozzle, in mm: the thinnest printed wall that holds its shape.
+const MIN_PRINTED_WALL = 0.8;
+// Printed holes narrower than this, in mm, close up or need drilling out.
+const MIN_PRINTED_HOLE = 2;
+// Below this many teeth a sprocket jerks the chain as each link drops onto it.
+export const MIN_SPROCKET_TEETH = 9;
+
+const involute = (phi: number) => Math.tan(phi) - phi;
+
+const isPrinted = (params: GearParams) => params.material.startsWith('pla-');
+
+// True when the outline turns back on itself as it goes round the axis,
+// which is where neighbouring teeth overlap. Steps back shorter than a
+// millionth of the outline's size are sampling noise, not overlaps.
+const foldsBack = (outline: Point2[]) => {
+  const tolerance = 1e-6 * Math.max(...outline.map(([x, y]) => Math.hypot(x, y)));
+  let turned = 0;
+  for (let i = 0; i < outline.length; i++) {
+    const [x1, y1] = outline[i], [x2, y2] = outline[(i + 1) % outline.length];
+    const step = Math.atan2(x1 * y2 - y1 * x2, x1 * x2 + y1 * y2);
+    if (step * Math.hypot(x2, y2) < -tolerance) return true;
+    turned += step;
+  }
+  return Math.abs(turned - 2 * Math.PI) > 1e-6;
+};
+
+// Circular thickness of an external involute tooth on its tip circle, or null
+// when the tip lies inside the base circle and has no involute to measure.
+const topLand = (params: GearParams): number | null => {
+  const { pitchRadius, baseRadius, tipRadius } = getToothRadii(params);
+  if (tipRadius <= baseRadius) return null;
+  const alpha = params.pressureAngle * Math.PI / 180;
+  const tipAlpha = Math.acos(baseRadius / tipRadius);
+  const halfAngle = getPitchThickness(params) / (2 * pitchRadius) + involute(alpha) - involute(tipAlpha);
+  return 2 * tipRadius * halfAngle;
+};
+
+// Compensating for the kerf moves the cut round each web cutout into it, far
+// enough on a narrow web to close the cutouts up and leave solid spokes.
+const checkCutoutAllowance = (params: GearParams, layout: HubLayout, add: AddViolation) => {
+  const { webStyle } = params;
+  if (layout.rimRadius === null || (webStyle !== 'spokes' && webStyle !== 'holes') || layout.cutouts.length > 0) return;
+  const spokes = webStyle === 'spokes';
+  add('error', `Compensating for the kerf closes up the web's ${spokes ? 'windows' : 'holes'}; reduce the kerf or use fewer ${spokes ? 'spokes' : 'holes'}.`, ['kerf', 'webCutouts']);
+};
+
+// The rim under the teeth of a gear with a hub, and the printability of the hub's features.
+const checkBody = (params: GearParams, rootRadius: number, toothHeight: number, add: AddViolation) => {
+  const layout = getHubLayout(params, rootRadius);
+  const webbed = layout.rimRadius !== null;
+  const rim = webbed ? rootRadius - (layout.rimRadius as number) : rootRadius - layout.boreReach;
+  const rimFields: RuleField[] = webbed ? ['rimThickness'] : ['innerRadius', 'outerRadius'];
+  if (rim <= 0) {
+    add('error', 'The bore cuts into the tooth roots; make it smaller.', rimFields);
+  } else if (rim < MIN_BACKUP_RATIO * toothHeight) {
+    add('warning', `${webbed ? 'The rim' : 'The material between bore and roots'} is ${rim.toFixed(1)} mm thick, under ${MIN_BACKUP_RATIO}× the tooth height; it will flex and crack at the roots.`, rimFields);
+  }
+  checkCutoutAllowance(params, layout, add);
+
+  if (isPrinted(params)) {
+    if (layout.hubRadius !== null && layout.hubRadius - layout.boreReach < MIN_PRINTED_WALL) {
+      add('warning', `The hub wall around the bore is under ${MIN_PRINTED_WALL} mm, too thin to print; enlarge the hub.`, ['hubDiameter']);
+    }
+    if (webbed && layout.webThickness < MIN_PRINTED_WALL) {
+      add('warning', `The web is under ${MIN_PRINTED_WALL} mm thick, too thin to print.`, ['webThickness']);
+    }
+    if (layout.setScrews.length > 0 && params.setScrewDiameter < MIN_PRINTED_HOLE) {
+      add('warning', `Printed set-screw holes under ${MIN_PRINTED_HOLE} mm close up; drill them out or enlarge them.`, ['setScrewDiameter']);
+    }
+  }
+};
+
+// The fit allowances move the outline far enough that its flanks cross.
+const checkAllowances = (params: GearParams, outline: Point2[], add: AddViolation) => {
+  const offset = getFlankOffset(params);
+  if (offset !== 0 && crossesItself(offsetOutline(outline, params.gearType === 'internal' ? -offset : offset))) {
+    add('error', `The fit allowances move the flanks ${Math.abs(offset).toFixed(2)} mm, enough that the outline crosses itself; reduce them.`, ['backlash', 'printClearance', 'kerf']);
+  }
+};
+
+const sortBySeverity = (violations: RuleViolation[]) =>
+  [...violations].sort((a, b) => Number(b.severity === 'error') - Number(a.severity === 'error'));
+
+/** Checks a gear against the design rules, most severe first. */
+export const checkDesignRules = (params: GearParams): RuleViolation[] => {
+  const violations: RuleViolation[] = [];
+  const add: AddViolation = (severity, message, fields) => violations.push({ severity, message, fields });
+  const { gearType, module: m, addendum, dedendum, profileShift } = params;
+  const spec = { ...params, teeth: Math.round(params.teeth) };
+  const teeth = spec.teeth;
+  const alpha = params.pressureAngle * Math.PI / 180;
+  const toothHeight = (addendum + dedendum) * m;
+  const printed = isPrinted(params);
+
+  if (gearType === 'sprocket' || gearType === 'pulley') {
+    const { tipRadius, rootRadius } = getGearRadii(spec);
+    if (gearType === 'sprocket') {
+      const chainFields: RuleField[] = ['rollerDiameter', 'chainPitch'];
+      if (params.rollerDiameter >= params.chainPitch) {
+        add('error', 'The rollers are as large as the chain pitch, so neighbouring rollers overlap; check the chain size.', chainFields);
+      } else if (foldsBack(createSprocketOutline(spec))) {
+        add('error', 'The roller seats overlap and the outline crosses itself. Add teeth or use smaller rollers.', ['teeth', ...chainFields]);
+      } else {
+        checkAllowances(params, createSprocketOutline(spec), add);
+      }
+      if (teeth < MIN_SPROCKET_TEETH) {
+        add('warning', `Sprockets with fewer than ${MIN_SPROCKET_TEETH} teeth jerk the chain and wear it quickly; add teeth.`, ['teeth']);
+      }
+    } else {
+      const belt = BELT_PROFILES[params.beltType];
+      if (rootRadius <= 0 || foldsBack(createPulleyOutline(spec))) {
+        add('error', 'The grooves overlap at the centre. Add teeth or use a finer belt.', ['teeth', 'beltType']);
+        return sortBySeverity(violations);
+      }
+      checkAllowances(params, createPulleyOutline(spec), add);
+      if (teeth < belt.minGrooves) {
+        add('warning', `${belt.name} belts bend too sharply round fewer than ${belt.minGrooves} grooves and wear out early.`, ['teeth', 'beltType']);
+      }
+    }
+    if (rootRadius > 0) checkBody(params, rootRadius, tipRadius - rootRadius, add);
+    return sortBySeverity(violations);
+  }
+
+  if (gearType === 'rack') {
+    const tipHalf = Math.PI * m / 4 - addendum * m * Math.tan(alpha);
+    if (tipHalf <= 0) {
+      add('error', 'The rack teeth come to a point below their tips; reduce the addendum.', ['addendum']);
+    } else if (2 * tipHalf < MIN_TOP_LAND * m) {
+      add('warning', `The rack's top lands are ${(2 * tipHalf).toFixed(2)} mm wide, under ${MIN_TOP_LAND} module; the tips will chip.`, ['addendum']);
+    } else if (printed && 2 * tipHalf < MIN_PRINTED_WALL) {
+      add('warning', `The rack's top lands are ${(2 * tipHalf).toFixed(2)} mm wide, too narrow to print; raise the module.`, ['module', 'addendum']);
+    }
+    if (params.rimThickness < MIN_BACKUP_RATIO * toothHeight) {
+      add('warning', `The rack's back is ${params.rimThickness.toFixed(1)} mm thick, under ${MIN_BACKUP_RATIO}× the tooth height; it will bend under load.`, ['rimThickness']);
+    }
+    return sortBySeverity(violations);
+  }
+
+  const internal = gearType === 'internal';
+  const { baseRadius, tipRadius, rootRadius } = getToothRadii(spec, internal);
+  const depthFields: RuleField[] = ['teeth', 'toothDepth', 'module', 'dedendum', 'profileShift'];
+
+  if (!internal && rootRadius <= 0) {
+    add('error', 'The root circle reaches the axis, so the teeth overlap at the centre. Add teeth or make them shallower.', depthFields);
+    return sortBySeverity(violations);
+  }
+  if (internal && tipRadius <= 0) {
+    add('error', 'The internal teeth reach the axis and overlap. Add teeth or make them shallower.', depthFields);
+    return sortBySeverity(violations);
+  }
+  const outline = internal ? createInternalOutline(spec) : createToothOutline(spec);
+  if (foldsBack(outline)) {
+    add('error', 'Neighbouring teeth overlap and the outline crosses itself. Add teeth or make them shallower.', depthFields);
+  } else {
+    checkAllowances(params, outline, add);
+  }
+
+  if (!internal && params.profile === 'involute') {
+    // A standard rack cutter undercuts any gear with fewer teeth than this.
+    const minTeeth = 2 * (addendum - profileShift) / Math.sin(alpha) ** 2;
+    if (teeth < minTeeth) {
+      const minShift = addendum - teeth * Math.sin(alpha) ** 2 / 2;
+      add('warning', `Undercut: ${teeth} teeth at ${params.pressureAngle}° need at least ${Math.ceil(minTeeth - 1e-9)}, or a profile shift of ${minShift.toFixed(2)}. The roots will be thinned.`, ['teeth', 'profileShift']);
+    }
+
+    const land = topLand(spec);
+    if (land !== null && land <= 0) {
+      add('error', 'The teeth come to a point before the tip circle; reduce the addendum or the profile shift.', ['addendum', 'profileShift']);
+    } else if (land !== null && land < MIN_TOP_LAND * m) {
+      add('warning', `The top lands are ${land.toFixed(2)} mm wide, under ${MIN_TOP_LAND} module; the tips will chip.`, ['addendum', 'profileShift']);
+    } else if (land !== null && printed && land < MIN_PRINTED_WALL) {
+      add('warning', `The top lands are ${land.toFixed(2)} mm wide, too narrow to print; raise the module.`, ['module', 'addendum']);
+    }
+  }
+
+  if (internal && tipRadius < baseRadius) {
+    add('warning', 'The internal teeth reach inside the base circle and lose their involute tips; add teeth or profile shift.', ['teeth', 'profileShift']);
+  }
+
+  // The rim: material between the roots and the bore, the web or the outside of an internal gear.
+  if (internal) {
+    if (params.rimThickness < MIN_BACKUP_RATIO * toothHeight) {
+      add('warning', `The rim is ${params.rimThickness.toFixed(1)} mm thick, under ${MIN_BACKUP_RATIO}× the tooth height; it will flex and crack at the roots.`, ['rimThickness']);
+    }
+  } else {
+    checkBody(params, rootRadius, toothHeight, add);
+  }
+
+  return sortBySeverity(violations);
+};
@@ -0,0 +1,284 @@
+// Sweeps a toothed 2D boundary along z into a solid. The part is bounded by
+// the toothed outline on one side and a plain boundary (a bore, a rim or the
+// back of a rack) on the other; every outline point is paired with the point
+// on the plain boundary it faces, and each pair becomes a quad strip.
+
+import { Point2 } from './toothProfile';
+import { Geometry } from './geometry';
+
+export interface ToothedBoundary {
+  // Wound counter-clockwise around the region the teeth enclose.
+  outline: Point2[];
+  closed: boolean;
+  // The point on the plain boundary that faces an (already swept) outline point.
+  base: (p: Point2) => Point2;
+  // True when the material lies inside the outline (external gears, racks),
+  // false when it lies outside (internal gears).
+  teethOutward: boolean;
+}
+
+/**
+ * How the profile moves as it is swept: `at` places an outline point at
+ * height z, and `velocity` is how fast a placed point moves in XY per unit
+ * of z, which tilts the side normals. `slices` lists z from back to front.
+ */
+export interface Sweep {
+  at: (p: Point2, z: number) => Point2;
+  velocity: (p: Point2, z: number) => Point2;
+  slices: number[];
+}
+
+/** A flat part: its outer contour counter-clockwise and its holes clockwise. */
+export interface Profile2D {
+  outer: Point2[];
+  holes: Point2[][];
+}
+
+// Drops points that repeat their predecessor, as bore points facing nearby outline points do.
+const dropRepeats = (points: Point2[]): Point2[] =>
+  points.filter((p, i) => i === 0 || Math.hypot(p[0] - points[i - 1][0], p[1] - points[i - 1][1]) > 1e-6);
+
+/** The closed contours the boundary encloses in its own plane, with the plain boundary drawn through the same points the extrusion uses. */
+export const flattenBoundary = ({ outline, closed, base, teethOutward }: ToothedBoundary): Profile2D => {
+  const plain = dropRepeats(outline.map(base));
+  if (!closed) {
+    return { outer: [...outline, base(outline[outline.length - 1]), base(outline[0])], holes: [] };
+  }
+  return teethOutward
+    ? { outer: outline, holes: [plain.reverse()] }
+    : { outer: plain, holes: [[...outline].reverse()] };
+};
+
+export const straightSweep = (width: number): Sweep => ({
+  at: p => p,
+  velocity: () => [0, 0],
+  slices: [-width / 2, width / 2],
+});
+
+const normalize = (x: number, y: number, z: number): number[] => {
+  const l = Math.hypot(x, y, z) || 1;
+  return [x / l, y / l, z / l];
+};
+
+export const extrudeToothed = (boundary: ToothedBoundary, sweep: Sweep): Geometry => {
+  const vertices: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+
+  const { outline, closed, base, teethOutward } = boundary;
+  const { slices: sliceZ } = sweep;
+  const slices = sliceZ.map(z => outline.map(p => sweep.at(p, z)));
+  const sign = teethOutward ? 1 : -1;
+  const segmentCount = closed ? outline.length : outline.length - 1;
+
+  let vertexIndex = 0;
+  const pushVertex = (p: Point2, z: number, n: number[]) => {
+    vertices.push(p[0], p[1], z);
+    normals.push(n[0], n[1], n[2]);
+    return vertexIndex++;
+  };
+  // Quads are given counter-clockwise as seen from outside an external part;
+  // internal gears turn the whole surface inside out.
+  const pushQuad = (a: number, b: number, c: number, d: number, reversed = false) => {
+    if (teethOutward !== reversed) indices.push(a, b, c, a, c, d);
+    else indices.push(a, c, b, a, d, c);
+  };
+
+  for (let i = 0; i < segmentCount; i++) {
+    const next = (i + 1) % outline.length;
+
+    // Front face
+    const zf = sliceZ[sliceZ.length - 1];
+    const p1f = slices[slices.length - 1][i], p2f = slices[slices.length - 1][next];
+    pushQuad(
+      pushVertex(base(p1f), zf, [0, 0, 1]),
+      pushVertex(p1f, zf, [0, 0, 1]),
+      pushVertex(p2f, zf, [0, 0, 1]),
+      pushVertex(base(p2f), zf, [0, 0, 1]),
+    );
+
+    // Back face
+    const zb0 = sliceZ[0];
+    const p1b0 = slices[0][i], p2b0 = slices[0][next];
+    pushQuad(
+      pushVertex(base(p1b0), zb0, [0, 0, -1]),
+      pushVertex(p1b0, zb0, [0, 0, -1]),
+      pushVertex(p2b0, zb0, [0, 0, -1]),
+      pushVertex(base(p2b0), zb0, [0, 0, -1]),
+      true,
+    );
+
+    for (let k = 0; k < sliceZ.length - 1; k++) {
+      const zb = sliceZ[k], zt = sliceZ[k + 1];
+      const zMid = (zb + zt) / 2;
+      const p1b = slices[k][i], p2b = slices[k][next];
+      const p1t = slices[k + 1][i], p2t = slices[k + 1][next];
+
+      // Toothed face. Going up in z the surface runs along the sweep velocity,
+      // so its normal is the outline edge crossed with (velocity, 1).
+      const sideNormal = (e: Point2, p: Point2) => {
+        const [vx, vy] = sweep.velocity(p, zMid);
+        return normalize(sign * e[1], -sign * e[0], sign * (e[0] * vy - e[1] * vx));
+      };
+      const eb: Point2 = [p2b[0] - p1b[0], p2b[1] - p1b[1]];
+      const et: Point2 = [p2t[0] - p1t[0], p2t[1] - p1t[1]];
+      pushQuad(
+        pushVertex(p1t, zt, sideNormal(et, p1t)),
+        pushVertex(p1b, zb, sideNormal(eb, p1b)),
+        pushVertex(p2b, zb, sideNormal(eb, p2b)),
+        pushVertex(p2t, zt, sideNormal(et, p2t)),
+      );
+
+      // Plain face: its normal points from the teeth towards the plain boundary, away from the material.
+      const b1t = base(p1t), b2t = base(p2t), b1b = base(p1b), b2b = base(p2b);
+      const baseNormal = normalize(
+        b1t[0] + b2t[0] + b1b[0] + b2b[0] - (p1t[0] + p2t[0] + p1b[0] + p2b[0]),
+        b1t[1] + b2t[1] + b1b[1] + b2b[1] - (p1t[1] + p2t[1] + p1b[1] + p2b[1]),
+        0
+      );
+      pushQuad(
+        pushVertex(b1t, zt, baseNormal),
+        pushVertex(b2t, zt, baseNormal),
+        pushVertex(b2b, zb, baseNormal),
+        pushVertex(b1b, zb, baseNormal),
+      );
+    }
+  }
+
+  // An open outline needs end caps between its first and last points and the plain boundary.
+  if (!closed) {
+    const ends: [number, number][] = [[0, 1], [outline.length - 1, outline.length - 2]];
+    for (const [end, inner] of ends) {
+      for (let k = 0; k < sliceZ.length - 1; k++) {
+        const zb = sliceZ[k], zt = sliceZ[k + 1];
+        const pb = slices[k][end], pt = slices[k + 1][end];
+        const bb = base(pb), bt = base(pt);
+        // Face away from the neighbouring outline point.
+        const away = [pb[0] - slices[k][inner][0], pb[1] - slices[k][inner][1]];
+        const u = [bb[0] - pb[0], bb[1] - pb[1], 0];
+        const v = [pt[0] - pb[0], pt[1] - pb[1], zt - zb];
+        let n = normalize(u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]);
+        const flip = n[0] * away[0] + n[1] * away[1] < 0;
+        if (flip) n = n.map(c => -c);
+        const a = pushVertex(pb, zb, n), b = pushVertex(bb, zb, n);
+        const c = pushVertex(bt, zt, n), d = pushVertex(pt, zt, n);
+        if (flip) indices.push(a, c, b, a, d, c);
+        else indices.push(a, b, c, a, c, d);
+      }
+    }
+  }
+
+  return { vertices, normals, indices };
+};
+
+// --- Layered solids ---
+// Parts with several thicknesses (a hub, a recessed web, a rim) are built
+// from closed loops that wind counter-clockwise around the axis and are
+// star-shaped about it, so any two of them can be joined by walking both in
+// order of angle. Every triangle gets its own vertices and face normal, and
+// surfaces that meet share the exact points of the loop between them, so the
+// result is closed.
+
+export type Point3 = [number, number, number];
+
+export interface MeshBuilder {
+  triangle: (a: Point3, b: Point3, c: Point3) => void;
+  geometry: () => Geometry;
+}
+
+export const createMeshBuilder = (): MeshBuilder => {
+  const vertices: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  return {
+    triangle: (a, b, c) => {
+      const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+      const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+      const n = normalize(u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]);
+      for (const p of [a, b, c]) {
+        indices.push(vertices.length / 3);
+        vertices.push(p[0], p[1], p[2]);
+        normals.push(n[0], n[1], n[2]);
+      }
+    },
+    geometry: () => ({ vertices, normals, indices }),
+  };
+};
+
+/**
+ * Triangulates the band between chains A and B, which both run in increasing
+ * `key` from a shared start to a shared end. Indices below aKeys.length are
+ * into A, the rest into B. With key as angle and A the inner chain, the
+ * triangles are counter-clockwise.
+ */
+export const zipChains = (aKeys: number[], bKeys: number[]): [number, number, number][] => {
+  const triangles: [number, number, number][] = [];
+  const offset = aKeys.length;
+  let i = 0, j = 0;
+  while (i < aKeys.length - 1 || j < bKeys.length - 1) {
+    const advanceB = i === aKeys.length - 1 || (j < bKeys.length - 1 && bKeys[j + 1] <= aKeys[i + 1]);
+    if (advanceB) {
+      triangles.push([i, offset + j, offset + j + 1]);
+      j++;
+    } else {
+      triangles.push([i, offset + j, i + 1]);
+      i++;
+    }
+  }
+  return triangles;
+};
+
+// Reorders a loop to start at its point nearest angle −π and returns its
+// angles unwrapped to increase, with the first point repeated at the end.
+const unwrapLoop = (loop: Point2[]): [Point2[], number[]] => {
+  const angles = loop.map(([x, y]) => Math.atan2(y, x));
+  let start = 0;
+  angles.forEach((angle, i) => {
+    if (angle < angles[start]) start = i;
+  });
+  const points = [...loop.slice(start), ...loop.slice(0, start), loop[start]];
+  const keys: number[] = [];
+  for (const [x, y] of points) {
+    let angle = Math.atan2(y, x);
+    while (keys.length && angle < keys[keys.length - 1] - Math.PI) angle += 2 * Math.PI;
+    keys.push(angle);
+  }
+  return [points, keys];
+};
+
+/**
+ * Fills the ring between two loops at height z, facing +z or −z. Given a
+ * function of the point instead, the ring lies on that surface, such as the
+ * back cone of a bevel gear.
+ */
+export const capBetween = (mesh: MeshBuilder, inner: Point2[], outer: Point2[], z: number | ((p: Point2) => number), up: boolean) => {
+  const [a, aKeys] = unwrapLoop(inner);
+  const [b, bKeys] = unwrapLoop(outer);
+  const points = [...a, ...b];
+  const height = typeof z === 'number' ? () => z : z;
+  for (const [p, q, r] of zipChains(aKeys, bKeys)) {
+    const [pp, qq, rr] = [points[p], points[q], points[r]].map((point): Point3 => [point[0], point[1], height(point)]);
+    if (up) mesh.triangle(pp, qq, rr);
+    else mesh.triangle(pp, rr, qq);
+  }
+};
+
+/**
+ * Joins copies of a loop stacked at heights zs into a wall. `loops[k]` is
+ * the loop at zs[k]; all have the same number of points, and the material
+ * lies to the left of the loop's direction.
+ */
+export const wallThrough = (mesh: MeshBuilder, loops: Point2[][], zs: number[]) => {
+  for (let k = 0; k < zs.length - 1; k++) {
+    const below = loops[k], above = loops[k + 1];
+    for (let i = 0; i < below.length; i++) {
+      const next = (i + 1) % below.length;
+      const p1b: Point3 = [below[i][0], below[i][1], zs[k]];
+      const p2b: Point3 = [below[next][0], below[next][1], zs[k]];
+      const p1t: Point3 = [above[i][0], above[i][1], zs[k + 1]];
+      const p2t: Point3 = [above[next][0], above[next][1], zs[k + 1]];
+      mesh.triangle(p1b, p2b, p2t);
+      mesh.triangle(p1b, p2t, p1t);
+    }
+  }
+};
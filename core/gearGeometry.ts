@@ -0,0 +1,383 @@
+// Gear and carrier meshes and flat profiles, built from their parameters.
+
+import {
+  Point2, createBevelOutline, createInternalOutline, createRackOutline, createToothOutline, getToothRadii,
+} from './toothProfile';
+import {
+  Point3, Profile2D, ToothedBoundary, Sweep, capBetween, createMeshBuilder, extrudeToothed, flattenBoundary, straightSweep,
+  wallThrough,
+} from './extrude';
+import { weldGeometry } from './manifold';
+import { HubLayout, extrudeGearBody, flattenHub, getHubLayout } from './hub';
+import { createSprocketOutline } from './sprocket';
+import { Flange, createPulleyOutline, getPulleyFlange } from './pulley';
+import { CarrierSpec } from './planetary';
+import { WormSpec, WormWheelSpec } from './worm';
+import { BevelGearSpec } from './bevel';
+import { GearParams, getGearRadii, hasHub } from './gearParams';
+import { getFlankOffset, offsetOutline } from './allowance';
+import { Geometry } from './geometry';
+
+// Upper bound on slices per half face width, which bounds the vertex count of steep helices.
+const MAX_HALF_SLICES = 4;
+
+const rotate2 = ([x, y]: Point2, angle: number): Point2 => {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  return [x * c - y * s, x * s + y * c];
+};
+
+// Slice each half of the face finely enough that no band moves the teeth more
+// than a quarter tooth along the pitch line. A spur gear needs no slices at all.
+// Heights where other surfaces meet the teeth's rim, such as a recessed web's
+// faces, are sliced too.
+const getSliceHeights = (params: GearParams, extraHeights: number[] = []): number[] => {
+  const { width } = params;
+  const tan = Math.abs(Math.tan(params.helixAngle * Math.PI / 180));
+  const halfSlices = tan === 0 ? 0 : Math.min(
+    MAX_HALF_SLICES, Math.max(1, Math.ceil(tan * width / 2 / (Math.PI * params.module / 4)))
+  );
+  const heights = halfSlices === 0
+    ? [-width / 2, width / 2]
+    : Array.from({ length: 2 * halfSlices + 1 }, (_, k) => width * (k / (2 * halfSlices) - 0.5));
+  for (const z of extraHeights) {
+    if (heights.every(h => Math.abs(h - z) > 1e-9)) heights.push(z);
+  }
+  return heights.sort((a, b) => a - b);
+};
+
+// How far the teeth have moved along the pitch line at height z, and how fast.
+// A herringbone mirrors the helix about the mid-plane.
+const helixTravel = (params: GearParams, z: number) =>
+  (params.herringbone ? Math.abs(z) : z) * Math.tan(params.helixAngle * Math.PI / 180);
+const helixSlope = (params: GearParams, z: number) =>
+  (params.herringbone && z < 0 ? -1 : 1) * Math.tan(params.helixAngle * Math.PI / 180);
+
+// A helical gear is its transverse profile turned steadily about the axis along the face width.
+const rotationalSweep = (params: GearParams, pitchRadius: number, extraHeights: number[] = []): Sweep => ({
+  at: (p, z) => rotate2(p, helixTravel(params, z) / pitchRadius),
+  velocity: (p, z) => {
+    const rate = helixSlope(params, z) / pitchRadius;
+    return [-rate * p[1], rate * p[0]];
+  },
+  slices: getSliceHeights(params, extraHeights),
+});
+
+// A helical rack slides its profile along its length instead. The sign gives
+// it the hand of an external gear of infinite radius, so it meshes with a
+// pinion of the opposite hand.
+const rackSweep = (params: GearParams): Sweep => ({
+  at: (p, z) => [p[0] - helixTravel(params, z), p[1]],
+  velocity: (_, z) => [-helixSlope(params, z), 0],
+  slices: getSliceHeights(params),
+});
+
+// The plain boundary of a round part is split at the same angles as the outline.
+const circleBase = (radius: number) => (p: Point2): Point2 => {
+  const angle = Math.atan2(p[1], p[0]);
+  return [radius * Math.cos(angle), radius * Math.sin(angle)];
+};
+
+// The toothed boundary of an internal gear or rack and how it is swept along the face width.
+const getGearBoundary = (params: GearParams): [ToothedBoundary, Sweep] => {
+  const spec = { ...params, teeth: Math.round(params.teeth) };
+
+  // A rack's edge has its material on the left, like an external gear's
+  // outline, but an internal gear's has it on the right, so its offset turns round.
+  const offset = getFlankOffset(params);
+  if (params.gearType === 'rack') {
+    const floor = -params.dedendum * params.module - params.rimThickness - params.kerf / 2;
+    return [{
+      outline: offsetOutline(createRackOutline(spec, params.rackLength), offset, false),
+      closed: false,
+      base: p => [p[0], floor],
+      teethOutward: true,
+    }, rackSweep(params)];
+  }
+
+  const { pitchRadius, rootRadius } = getToothRadii(spec, true);
+  return [{
+    outline: offsetOutline(createInternalOutline(spec), -offset),
+    closed: true,
+    base: circleBase(rootRadius + params.rimThickness + params.kerf / 2),
+    teethOutward: false,
+  }, rotationalSweep(params, pitchRadius)];
+};
+
+// The outline of a gear with a hub: involute teeth, a sprocket's or a pulley's.
+const getHubbedOutline = (spec: GearParams): Point2[] => {
+  switch (spec.gearType) {
+    case 'sprocket': return createSprocketOutline(spec);
+    case 'pulley': return createPulleyOutline(spec);
+    default: return createToothOutline(spec);
+  }
+};
+
+// A gear's teeth, their sweep, the hub features inside them and any flanges
+// beside them. Sprockets and pulleys are straight; flanges widen the body
+// the hub is laid out in, but the web stays within the teeth.
+const getGearBody = (params: GearParams): [Point2[], Sweep, HubLayout, Flange | null] => {
+  const spec = { ...params, teeth: Math.round(params.teeth) };
+  const { pitchRadius, rootRadius } = getGearRadii(spec);
+  const flange = params.gearType === 'pulley' ? getPulleyFlange(spec) : null;
+  const layout = getHubLayout(flange ? {
+    ...params,
+    width: params.width + 2 * flange.thickness,
+    webThickness: Math.min(params.webThickness, params.width),
+  } : params, rootRadius);
+  const webFaces = layout.rimRadius === null ? [] : [-layout.webThickness / 2, layout.webThickness / 2];
+  const sweepParams = params.gearType === 'external' ? params : { ...params, helixAngle: 0 };
+  const outline = offsetOutline(getHubbedOutline(spec), getFlankOffset(params));
+  return [outline, rotationalSweep(sweepParams, pitchRadius, webFaces), layout, flange];
+};
+
+// Results are kept per params object, so a scene rebuilt around an unchanged
+// gear hands the renderer the same geometry and nothing is re-uploaded.
+const geometryCache = new WeakMap<GearParams, Geometry>();
+const profileCache = new WeakMap<GearParams, Profile2D>();
+
+export const createGearGeometry = (params: GearParams): Geometry => {
+  let geometry = geometryCache.get(params);
+  if (!geometry) {
+    geometry = weldGeometry(hasHub(params.gearType)
+      ? extrudeGearBody(...getGearBody(params))
+      : extrudeToothed(...getGearBoundary(params)));
+    geometryCache.set(params, geometry);
+  }
+  return geometry;
+};
+
+/** The gear's transverse profile on its mid-plane, drawn from the same boundary as its mesh. */
+export const createGearProfile = (params: GearParams): Profile2D => {
+  let profile = profileCache.get(params);
+  if (!profile) {
+    if (hasHub(params.gearType)) {
+      const [outline, , layout] = getGearBody(params);
+      profile = flattenHub(outline, layout);
+    } else {
+      profile = flattenBoundary(getGearBoundary(params)[0]);
+    }
+    profileCache.set(params, profile);
+  }
+  return profile;
+};
+
+/** Hub features that could not be built as configured, and why. */
+export const getHubWarnings = (params: GearParams): string[] =>
+  hasHub(params.gearType) ? getGearBody(params)[2].warnings : [];
+
+// Segments in the plain circles of the carrier.
+const CIRCLE_SEGMENTS = 48;
+
+const circleOutline = (radius: number): Point2[] =>
+  Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => rotate2([radius, 0], 2 * Math.PI * i / CIRCLE_SEGMENTS));
+
+const annulus = (outerRadius: number, innerRadius: number): ToothedBoundary => ({
+  outline: circleOutline(outerRadius),
+  closed: true,
+  base: circleBase(innerRadius),
+  teethOutward: true,
+});
+
+// An annulus of the given thickness, centred on z = 0.
+const createRingPlate = (outerRadius: number, innerRadius: number, thickness: number): Geometry =>
+  extrudeToothed(annulus(outerRadius, innerRadius), straightSweep(thickness));
+
+// Concatenates meshes, moving each by an offset.
+const combineGeometry = (parts: [Geometry, number[]][]): Geometry => {
+  const combined: Geometry = { vertices: [], normals: [], indices: [] };
+  for (const [geometry, offset] of parts) {
+    const first = combined.vertices.length / 3;
+    for (let i = 0; i < geometry.vertices.length; i++) combined.vertices.push(geometry.vertices[i] + offset[i % 3]);
+    combined.normals.push(...geometry.normals);
+    for (const index of geometry.indices) combined.indices.push(index + first);
+  }
+  return combined;
+};
+
+/** The planet carrier: a plate centred on z = 0 with hollow pins standing out of its front face. */
+export const createCarrierGeometry = (spec: CarrierSpec): Geometry => {
+  const pin = createRingPlate(spec.pinRadius, spec.pinRadius / 2, spec.pinLength);
+  const pinZ = spec.thickness / 2 + spec.pinLength / 2;
+  return weldGeometry(combineGeometry([
+    [createRingPlate(spec.plateRadius, spec.boreRadius, spec.thickness), [0, 0, 0]],
+    ...spec.pins.map(([x, y]): [Geometry, number[]] => [pin, [x, y, pinZ]]),
+  ]));
+};
+
+/** The carrier plate with holes for the bore and the planet pins. */
+export const createCarrierProfile = (spec: CarrierSpec): Profile2D => {
+  const { outer, holes } = flattenBoundary(annulus(spec.plateRadius, spec.boreRadius));
+  const pinHole = [...circleOutline(spec.pinRadius)].reverse();
+  return {
+    outer,
+    holes: [...holes, ...spec.pins.map(([x, y]) => pinHole.map(([px, py]): Point2 => [px + x, py + y]))],
+  };
+};
+
+// --- Worm drives ---
+// Samples up each flank of a worm thread's section.
+const THREAD_FLANK_SAMPLES = 6;
+// Longest arc, in radians, between samples on a thread's tip or root.
+const THREAD_ARC_STEP = 2 * Math.PI / 48;
+// Slices per turn of the thread, so each band twists the section only a little.
+const WORM_SLICES_PER_TURN = 36;
+// Slices across the wheel's face, which follow the curve of its throat.
+const THROAT_SLICES = 12;
+
+const arcSamples = (span: number) => Math.max(1, Math.ceil(span / THREAD_ARC_STEP));
+
+/**
+ * The worm's transverse section, one lobe per start. The threads are straight
+ * sided in the axial plane, so at radius r a thread's axial thickness shrinks
+ * linearly from the root to the tip; the lead turns that thickness into an
+ * angle of the section.
+ */
+const createWormOutline = (spec: WormSpec): Point2[] => {
+  const { starts, module: m, pitchRadius, lead } = spec;
+  const pitch = Math.PI * m;
+  const tan = Math.tan(spec.pressureAngle * Math.PI / 180);
+  const tip = pitchRadius + spec.addendum * m, root = pitchRadius - spec.dedendum * m;
+  const halfAngle = (r: number) =>
+    2 * Math.PI * Math.min(pitch / 2, Math.max(0, pitch / 4 - (r - pitchRadius) * tan)) / lead;
+  const spacing = 2 * Math.PI / starts;
+  const tipHalf = halfAngle(tip), rootHalf = halfAngle(root);
+
+  const outline: Point2[] = [];
+  const polar = (r: number, angle: number) => outline.push([r * Math.cos(angle), r * Math.sin(angle)]);
+  for (let k = 0; k < starts; k++) {
+    const c = k * spacing;
+    for (let i = 0; i <= THREAD_FLANK_SAMPLES; i++) {
+      const r = root + (tip - root) * i / THREAD_FLANK_SAMPLES;
+      polar(r, c - halfAngle(r));
+    }
+    const tipSteps = arcSamples(2 * tipHalf);
+    for (let i = 1; i < tipSteps; i++) polar(tip, c - tipHalf + 2 * tipHalf * i / tipSteps);
+    for (let i = THREAD_FLANK_SAMPLES; i >= 0; i--) {
+      const r = root + (tip - root) * i / THREAD_FLANK_SAMPLES;
+      polar(r, c + halfAngle(r));
+    }
+    const gap = spacing - 2 * rootHalf;
+    const rootSteps = arcSamples(gap);
+    for (let i = 1; i < rootSteps; i++) polar(root, c + rootHalf + gap * i / rootSteps);
+  }
+  // A pointed thread's two flanks meet in one point.
+  return outline.filter((p, i) => {
+    const [qx, qy] = outline[(i + outline.length - 1) % outline.length];
+    return Math.hypot(p[0] - qx, p[1] - qy) > 1e-9;
+  });
+};
+
+const wormCache = new WeakMap<WormSpec, Geometry>();
+const wormWheelCache = new WeakMap<WormWheelSpec, Geometry>();
+
+/** The worm: its section turned once per lead along its length, about z and centred on z = 0. */
+export const createWormGeometry = (spec: WormSpec): Geometry => {
+  let geometry = wormCache.get(spec);
+  if (!geometry) {
+    const rate = 2 * Math.PI / spec.lead;
+    const count = Math.max(1, Math.ceil(spec.length / spec.lead * WORM_SLICES_PER_TURN));
+    const sweep: Sweep = {
+      at: (p, z) => rotate2(p, rate * z),
+      velocity: p => [-rate * p[1], rate * p[0]],
+      slices: Array.from({ length: count + 1 }, (_, k) => spec.length * (k / count - 0.5)),
+    };
+    geometry = weldGeometry(extrudeToothed({
+      outline: createWormOutline(spec),
+      closed: true,
+      base: circleBase(spec.boreRadius),
+      teethOutward: true,
+    }, sweep));
+    wormCache.set(spec, geometry);
+  }
+  return geometry;
+};
+
+/**
+ * The worm wheel: a helical gear whose tip and root run round circles about
+ * the worm's axis instead of straight across the face, so the teeth wrap
+ * part way round the worm. Its mid-plane section is the plain gear's; off
+ * the mid-plane the helical flanks stand in for the hobbed ones and leave the
+ * teeth a little full towards the faces.
+ */
+export const createWormWheelGeometry = (spec: WormWheelSpec): Geometry => {
+  let geometry = wormWheelCache.get(spec);
+  if (!geometry) {
+    const { params, centerDistance } = spec;
+    const [outline, sweep, layout] = getGearBody(params);
+    const { tipRadius, rootRadius } = getToothRadii({ ...params, teeth: Math.round(params.teeth) });
+    // Radius at height z of a circle about the worm's axis through `radius` on the mid-plane.
+    const throat = (radius: number, z: number) => {
+      const around = centerDistance - radius;
+      return centerDistance - Math.sqrt(Math.max(0, around * around - z * z));
+    };
+    const slices = [...sweep.slices];
+    for (let k = 0; k <= THROAT_SLICES; k++) {
+      const z = params.width * (k / THROAT_SLICES - 0.5);
+      if (slices.every(h => Math.abs(h - z) > 1e-9)) slices.push(z);
+    }
+    const throated: Sweep = {
+      ...sweep,
+      // Each point keeps its place between root and tip as both rise towards the faces.
+      at: (p, z) => {
+        const [x, y] = sweep.at(p, z);
+        const r = Math.hypot(x, y);
+        const t = (r - rootRadius) / (tipRadius - rootRadius);
+        const scale = (throat(rootRadius, z) + t * (throat(tipRadius, z) - throat(rootRadius, z))) / r;
+        return [x * scale, y * scale];
+      },
+      slices: slices.sort((a, b) => a - b),
+    };
+    geometry = weldGeometry(extrudeGearBody(outline, throated, layout));
+    wormWheelCache.set(spec, geometry);
+  }
+  return geometry;
+};
+
+// --- Bevel gears ---
+const bevelCache = new WeakMap<BevelGearSpec, Geometry>();
+
+/**
+ * A straight bevel gear. Its heel lies on the back cone, square to the pitch
+ * cone, and every tooth surface is ruled by lines to the apex, so the toe is
+ * the heel shrunk towards the apex. Below the teeth the back and front cones
+ * step down to flat faces round the bore.
+ */
+export const createBevelGeometry = (spec: BevelGearSpec): Geometry => {
+  let geometry = bevelCache.get(spec);
+  if (!geometry) {
+    const { pitchRadius } = getToothRadii(spec);
+    const delta = spec.pitchAngle * Math.PI / 180;
+    const apex = spec.coneDistance * Math.cos(delta);
+    const toeScale = 1 - spec.faceWidth / spec.coneDistance;
+    const toToe = ([x, y]: Point2): Point2 => [x * toeScale, y * toeScale];
+    // The back cone's height over a point, and the front cone's: the back cone shrunk towards the apex.
+    const heelZ = (p: Point2) => (Math.hypot(p[0], p[1]) - pitchRadius) * Math.tan(delta);
+    const toeZ = (p: Point2) => apex + toeScale * (heelZ([p[0] / toeScale, p[1] / toeScale]) - apex);
+
+    const heel = createBevelOutline(spec, spec.pitchAngle);
+    const toe = heel.map(toToe);
+    const rim = circleOutline(spec.rimRadius);
+    const toeRim = rim.map(toToe);
+    const bore = circleOutline(spec.boreRadius);
+    const back = heelZ(rim[0]), front = toeZ(toeRim[0]);
+
+    const mesh = createMeshBuilder();
+    for (let i = 0; i < heel.length; i++) {
+      const next = (i + 1) % heel.length;
+      const [h1, h2, t1, t2] = [heel[i], heel[next], toe[i], toe[next]];
+      const a: Point3 = [h1[0], h1[1], heelZ(h1)], b: Point3 = [h2[0], h2[1], heelZ(h2)];
+      const c: Point3 = [t2[0], t2[1], toeZ(t2)], d: Point3 = [t1[0], t1[1], toeZ(t1)];
+      mesh.triangle(a, b, c);
+      mesh.triangle(a, c, d);
+    }
+    capBetween(mesh, rim, heel, heelZ, false);
+    capBetween(mesh, toeRim, toe, toeZ, true);
+    capBetween(mesh, bore, rim, back, false);
+    capBetween(mesh, bore, toeRim, front, true);
+    const boreWall = [...bore].reverse();
+    wallThrough(mesh, [boreWall, boreWall], [back, front]);
+    geometry = weldGeometry(mesh.geometry());
+    bevelCache.set(spec, geometry);
+  }
+  return geometry;
+};
@@ -0,0 +1,245 @@
+// Meshing analysis for a pair of gears that share a module and pressure
+// angle. The driver is the gear being configured and sits at the origin; the
+// driven gear is an external pinion on +x, or above a rack on +y. A sprocket
+// or pulley drives another like it on +x through a chain or belt, which is
+// not drawn.
+
+import { GearParams, GearType, getGearRadii, isChainOrBelt } from './gearParams';
+import { getPitchThickness, getToothRadii } from './toothProfile';
+import { getBacklashThinning } from './allowance';
+
+export interface MateParams {
+  teeth: number;
+  profileShift: number;
+  // Extra centre distance beyond the tight-mesh distance, in mm.
+  centerDistanceAllowance: number;
+}
+
+export const DEFAULT_MATE_PARAMS: MateParams = {
+  teeth: 30,
+  profileShift: 0,
+  centerDistanceAllowance: 0,
+};
+
+export interface PairAnalysis {
+  kind: GearType; // the driver's gear type
+  ratio: number; // z2 / z1, the speed reduction from driver to driven; 0 for a rack
+  rackTravel: number; // mm a rack moves per turn of its pinion; 0 for gear pairs
+  standardCenterDistance: number;
+  centerDistance: number;
+  workingPressureAngle: number; // degrees
+  contactRatio: number;
+  overlapRatio: number; // extra contact from the helix across the face width
+  backlash: number; // circumferential, on the operating pitch circle
+  normalBacklash: number;
+  warnings: string[];
+}
+
+/** Where a gear of the pair sits and how it moves as the drive angle advances. */
+export interface PairMotion {
+  position: [number, number, number];
+  phase: number;
+  speed: number; // turns per turn of the drive angle
+  travel?: [number, number, number]; // mm per radian of the drive angle
+}
+
+const involute = (phi: number) => Math.tan(phi) - phi;
+
+// Inverts the involute function with Newton's method; converges in a few steps for gear angles.
+const inverseInvolute = (value: number) => {
+  let phi = Math.cbrt(3 * value);
+  for (let i = 0; i < 16; i++) {
+    const tan = Math.tan(phi);
+    phi -= (tan - phi - value) / (tan * tan);
+  }
+  return phi;
+};
+
+/** The driven gear: an external gear with the driver's tooth system and its own tooth count and shift. */
+export const createMateParams = (driver: GearParams, mate: MateParams): GearParams => {
+  if (isChainOrBelt(driver.gearType)) {
+    // The same chain or belt runs round both wheels.
+    const driven = { ...driver, teeth: mate.teeth };
+    return { ...driven, innerRadius: Math.min(driver.innerRadius, getGearRadii(driven).rootRadius * 0.5) };
+  }
+  // A pinion meshes with an external gear or a rack of the opposite hand, but
+  // with an internal gear of the same hand.
+  const driven: GearParams = {
+    ...driver,
+    gearType: 'external',
+    teeth: mate.teeth,
+    profileShift: mate.profileShift,
+    helixAngle: driver.gearType === 'internal' ? driver.helixAngle : -driver.helixAngle,
+  };
+  // Keep the driver's bore unless it would cut into the smaller gear's root.
+  const rootRadius = getToothRadii(driven).rootRadius;
+  return { ...driven, innerRadius: Math.min(driver.innerRadius, rootRadius * 0.5) };
+};
+
+// Tooth (or, for an internal gear, space) thickness carried from the
+// reference circle to another circle. The backlash allowance thins a tooth
+// and so widens a space.
+const thicknessAt = (spec: GearParams, pitchRadius: number, radius: number, alpha: number, angle: number) => {
+  const thickness = getPitchThickness(spec) + (spec.gearType === 'internal' ? 1 : -1) * getBacklashThinning(spec);
+  return 2 * radius * (thickness / (2 * pitchRadius) + involute(alpha) - involute(angle));
+};
+
+export const analyzePair = (driver: GearParams, driven: GearParams, centerDistanceAllowance = 0): PairAnalysis => {
+  const m = driver.module;
+  const z1 = Math.round(driver.teeth), z2 = Math.round(driven.teeth);
+  const alpha = driver.pressureAngle * Math.PI / 180;
+  const basePitch = Math.PI * m * Math.cos(alpha);
+  const overlapRatio = Math.min(driver.width, driven.width) * Math.abs(Math.tan(driver.helixAngle * Math.PI / 180)) / (Math.PI * m);
+  const r2 = getToothRadii({ ...driven, teeth: z2 });
+  const involuteReach = (r: { tipRadius: number; baseRadius: number }) =>
+    Math.sqrt(Math.max(0, r.tipRadius ** 2 - r.baseRadius ** 2));
+  const warnings: string[] = [];
+
+  if (isChainOrBelt(driver.gearType)) {
+    // The wheels stand a pitch apart at their tips, and the chain or belt
+    // turns them the same way at the ratio of their tooth counts.
+    const wheel1 = getGearRadii({ ...driver, teeth: z1 });
+    const pitch = 2 * wheel1.pitchRadius * Math.sin(Math.PI / z1);
+    const standardCenterDistance = wheel1.tipRadius + getGearRadii({ ...driven, teeth: z2 }).tipRadius + pitch;
+    return {
+      kind: driver.gearType,
+      ratio: z2 / z1,
+      rackTravel: 0,
+      standardCenterDistance,
+      centerDistance: standardCenterDistance + centerDistanceAllowance,
+      workingPressureAngle: 0,
+      contactRatio: 0,
+      overlapRatio: 0,
+      backlash: 0,
+      normalBacklash: 0,
+      warnings,
+    };
+  }
+
+  if (driver.gearType === 'rack') {
+    // The pinion's reference circle rolls on the rack's pitch line, and the
+    // straight rack flanks keep the pressure angle fixed. Pulling the rack
+    // away opens a gap on both flanks of every tooth, on top of the teeth's
+    // own backlash allowances.
+    const standardCenterDistance = r2.pitchRadius;
+    const centerDistance = standardCenterDistance + driven.profileShift * m + centerDistanceAllowance;
+    // Contact runs from the rack's tip line to the pinion's tip circle.
+    const rackTipDistance = centerDistance - driver.addendum * m;
+    const contactLength = involuteReach(r2) - (rackTipDistance - r2.baseRadius * Math.cos(alpha)) / Math.sin(alpha);
+    const backlash = 2 * centerDistanceAllowance * Math.tan(alpha) + getBacklashThinning(driver) + getBacklashThinning(driven);
+    return {
+      kind: 'rack',
+      ratio: 0,
+      rackTravel: 2 * Math.PI * r2.pitchRadius,
+      standardCenterDistance,
+      centerDistance,
+      workingPressureAngle: driver.pressureAngle,
+      contactRatio: Math.max(0, contactLength / basePitch),
+      overlapRatio,
+      backlash,
+      normalBacklash: backlash * Math.cos(alpha),
+      warnings,
+    };
+  }
+
+  const internal = driver.gearType === 'internal';
+  const r1 = getGearRadii({ ...driver, teeth: z1 });
+  if (internal && z1 <= z2) {
+    warnings.push('The internal gear needs more teeth than the pinion.');
+  }
+
+  // Profile shift moves the gears until the flanks touch without play. An
+  // internal gear's shift widens its spaces, so the pinion's shift counts against it.
+  const toothSum = internal ? z1 - z2 : z1 + z2;
+  const shiftSum = internal ? driver.profileShift - driven.profileShift : driver.profileShift + driven.profileShift;
+  const standardCenterDistance = m * toothSum / 2;
+  const tightAngle = toothSum > 0
+    ? inverseInvolute(involute(alpha) + 2 * Math.tan(alpha) * shiftSum / toothSum)
+    : alpha;
+  const tightCenterDistance = standardCenterDistance * Math.cos(alpha) / Math.cos(tightAngle);
+  // Play comes from moving a pinion towards the centre of an internal gear, but away from an external one.
+  const centerDistance = internal
+    ? Math.max(0, tightCenterDistance - centerDistanceAllowance)
+    : tightCenterDistance + centerDistanceAllowance;
+  const workingAngle = Math.acos(Math.min(1, standardCenterDistance * Math.cos(alpha) / (centerDistance || 1)));
+
+  // An internal gear's tip circle lies inside its base circle when it has
+  // few teeth, leaving its flanks no involute to contact along.
+  if (internal && r1.tipRadius < r1.baseRadius) {
+    warnings.push('The internal gear\'s tip circle lies inside its base circle; add teeth or profile shift.');
+  }
+  const contactLength = internal
+    ? involuteReach(r2) - involuteReach(r1) + centerDistance * Math.sin(workingAngle)
+    : involuteReach(r1) + involuteReach(r2) - centerDistance * Math.sin(workingAngle);
+
+  // Thicknesses on the operating pitch circles, whose radii split the centre
+  // distance in the ratio of the tooth counts. An internal gear's space has
+  // to hold the pinion's tooth.
+  const workingRadius1 = toothSum > 0 ? centerDistance * z1 / toothSum : r1.pitchRadius;
+  const workingRadius2 = toothSum > 0 ? centerDistance * z2 / toothSum : r2.pitchRadius;
+  const thickness1 = thicknessAt(driver, r1.pitchRadius, workingRadius1, alpha, workingAngle);
+  const thickness2 = thicknessAt(driven, r2.pitchRadius, workingRadius2, alpha, workingAngle);
+  const backlash = internal
+    ? thickness1 - thickness2
+    : (2 * Math.PI * workingRadius1) / z1 - thickness1 - thickness2;
+
+  return {
+    kind: driver.gearType,
+    ratio: z2 / z1,
+    rackTravel: 0,
+    standardCenterDistance,
+    centerDistance,
+    workingPressureAngle: workingAngle * 180 / Math.PI,
+    contactRatio: Math.max(0, contactLength / basePitch),
+    overlapRatio,
+    backlash,
+    normalBacklash: backlash * Math.cos(workingAngle),
+    warnings,
+  };
+};
+
+/**
+ * Angle of the driven gear for a given driver angle. With the driver's tooth 0
+ * pointing along the line of centres, a tooth space of the driven gear has to
+ * face it; any other driver angle turns the driven gear back by the ratio.
+ */
+export const getMatePhase = (driverTeeth: number, drivenTeeth: number, driverPhase = 0, lineAngle = 0) => {
+  const z1 = Math.round(driverTeeth), z2 = Math.round(drivenTeeth);
+  return lineAngle + Math.PI + Math.PI / z2 - (driverPhase - lineAngle) * z1 / z2;
+};
+
+/**
+ * Poses the driver and driven gear of a pair. External and internal gears,
+ * sprockets and pulleys drive at unit speed with the driven wheel on +x. A
+ * rack cannot turn, so the pinion above it sets the drive and the rack slides
+ * under it by the pitch radius per radian.
+ */
+export const placePair = (driver: GearParams, driven: GearParams, analysis: PairAnalysis): [PairMotion, PairMotion] => {
+  const z1 = Math.round(driver.teeth), z2 = Math.round(driven.teeth);
+  const a = analysis.centerDistance;
+  switch (analysis.kind) {
+    case 'rack':
+      // The rack has a tooth on x = 0, so the pinion turns a space to face it.
+      return [
+        { position: [0, 0, 0], phase: 0, speed: 0, travel: [getToothRadii(driven).pitchRadius, 0, 0] },
+        { position: [0, a, 0], phase: -Math.PI / 2 + Math.PI / z2, speed: 1 },
+      ];
+    case 'sprocket':
+    case 'pulley':
+      return [
+        { position: [0, 0, 0], phase: 0, speed: 1 },
+        { position: [a, 0, 0], phase: 0, speed: z1 / z2 },
+      ];
+    case 'internal':
+      // The internal gear's space 0 faces the pinion's tooth 0, and both turn the same way.
+      return [
+        { position: [0, 0, 0], phase: 0, speed: 1 },
+        { position: [a, 0, 0], phase: 0, speed: z1 / z2 },
+      ];
+    default:
+      return [
+        { position: [0, 0, 0], phase: 0, speed: 1 },
+        { position: [a, 0, 0], phase: getMatePhase(z1, z2), speed: -z1 / z2 },
+      ];
+  }
+};
@@ -0,0 +1,236 @@
+// The gear parameter model. Engineering inputs (module, tooth count, pressure
+// angle, profile shift, face width) are the source of truth; the diameters and
+// the legacy radius set are derived from them.
+
+import { getToothRadii, ToothProfileType, ToothRadii, ToothSpec } from './toothProfile';
+import { MATERIALS, MaterialId } from './materials';
+import { SprocketSpec, getSprocketRadii } from './sprocket';
+import { BELT_TYPES, PulleySpec, getPulleyRadii } from './pulley';
+
+export const MM_PER_INCH = 25.4;
+
+// Model coordinates are millimetres; exports can be written in either unit.
+export type LengthUnit = 'mm' | 'inch';
+
+export const UNIT_SCALE: Record<LengthUnit, number> = { mm: 1, inch: 1 / MM_PER_INCH };
+
+export const GEAR_TYPES = ['external', 'internal', 'rack', 'sprocket', 'pulley'] as const;
+export type GearType = typeof GEAR_TYPES[number];
+
+// Sprockets and pulleys drive a chain or belt instead of meshing with another gear.
+export const isChainOrBelt = (gearType: GearType) => gearType === 'sprocket' || gearType === 'pulley';
+
+// Whether the gear is a disc with a bore and hub: an external gear, sprocket or pulley.
+export const hasHub = (gearType: GearType) => gearType === 'external' || isChainOrBelt(gearType);
+
+// Hub features, which only gears with a hub have.
+export const BORE_SHAPES = ['round', 'keyway', 'dFlat', 'hex'] as const;
+export type BoreShape = typeof BORE_SHAPES[number];
+
+export const KEYWAY_STANDARDS = ['din6885', 'ansi'] as const;
+export type KeywayStandard = typeof KEYWAY_STANDARDS[number];
+
+// 'spokes' leaves straight spokes between windows in the web; 'holes' cuts round lightening holes.
+export const WEB_STYLES = ['solid', 'recessed', 'spokes', 'holes'] as const;
+export type WebStyle = typeof WEB_STYLES[number];
+
+// Whether the backlash allowance is measured along the pitch circle or normal to the flanks.
+export const BACKLASH_MODES = ['circumferential', 'normal'] as const;
+export type BacklashMode = typeof BACKLASH_MODES[number];
+
+/**
+ * The tooth system is defined in the transverse plane, so a helical gear's
+ * `module` and `pressureAngle` are transverse values. Sprockets and pulleys
+ * take their teeth from the chain or belt instead and ignore the tooth system.
+ * Every dimension is nominal; the fit allowances are applied to the outline
+ * when it is built.
+ */
+export interface GearParams extends ToothSpec, SprocketSpec, PulleySpec {
+  gearType: GearType;
+  innerRadius: number; // bore radius
+  width: number; // face width
+  helixAngle: number; // degrees; positive is right hand
+  herringbone: boolean;
+  rimThickness: number; // material outside an internal gear's root circle, under a rack's roots, or inside a webbed gear's
+  rackLength: number;
+  material: MaterialId;
+  boreShape: BoreShape; // a hex bore's innerRadius is half its size across flats
+  keywayStandard: KeywayStandard;
+  hubDiameter: number;
+  hubProjection: number; // how far the hub stands proud of the front face
+  webStyle: WebStyle;
+  webThickness: number; // of a webbed gear's web, centred on the mid-plane
+  webCutouts: number; // spokes or holes
+  setScrews: number;
+  setScrewDiameter: number;
+  backlash: number; // allowance this gear's teeth are thinned by
+  backlashMode: BacklashMode;
+  printClearance: number; // taken off every edge of the toothed outline, for a printer's XY oversize
+  kerf: number; // width of the laser's cut, half of which the outline is moved out by
+  boreAllowance: number; // added to the bore's diameter
+}
+
+export const DEFAULT_GEAR_PARAMS: GearParams = {
+  gearType: 'external',
+  profile: 'involute',
+  module: 1.0,
+  teeth: 20,
+  pressureAngle: 20,
+  profileShift: 0,
+  addendum: 1.0,
+  dedendum: 1.25,
+  innerRadius: 4,
+  width: 6,
+  helixAngle: 0,
+  herringbone: false,
+  rimThickness: 5,
+  rackLength: 100,
+  material: 'steel',
+  boreShape: 'round',
+  keywayStandard: 'din6885',
+  hubDiameter: 14,
+  hubProjection: 0,
+  webStyle: 'solid',
+  webThickness: 3,
+  webCutouts: 5,
+  setScrews: 0,
+  setScrewDiameter: 3,
+  chainPitch: 12.7,
+  rollerDiameter: 7.92,
+  beltType: 'gt2',
+  flanges: false,
+  backlash: 0,
+  backlashMode: 'circumferential',
+  printClearance: 0,
+  kerf: 0,
+  boreAllowance: 0,
+};
+
+// How the Configurator asks for the gear size.
+export type InputMode = 'module' | 'diametralPitch' | 'radius';
+
+/** The raw radius description the modeller started out with. */
+export interface RadiusSet {
+  innerRadius: number;
+  outerRadius: number; // root radius, where the teeth start
+  width: number;
+  teeth: number;
+  toothDepth: number;
+}
+
+export interface DerivedDimensions {
+  pitchDiameter: number;
+  baseDiameter: number;
+  tipDiameter: number;
+  rootDiameter: number;
+  circularPitch: number;
+  diametralPitch: number; // teeth per inch of pitch diameter
+  normalModule: number;
+  axialPitch: number; // Infinity for a spur gear
+}
+
+// Axial force on a gear driving counter-clockwise as seen from +z.
+export type AxialThrust = 'none' | 'balanced' | 'front' | 'back';
+
+export const moduleToDiametralPitch = (module: number) => MM_PER_INCH / module;
+export const diametralPitchToModule = (diametralPitch: number) => MM_PER_INCH / diametralPitch;
+
+export const getGearRadii = (params: GearParams): ToothRadii => {
+  if (params.gearType === 'sprocket') return getSprocketRadii(params);
+  if (params.gearType === 'pulley') return getPulleyRadii(params);
+  return getToothRadii(params, params.gearType === 'internal');
+};
+
+export const deriveDimensions = (params: GearParams): DerivedDimensions => {
+  const { pitchRadius, baseRadius, tipRadius, rootRadius } = getGearRadii(params);
+  return {
+    pitchDiameter: 2 * pitchRadius,
+    baseDiameter: 2 * baseRadius,
+    tipDiameter: 2 * tipRadius,
+    rootDiameter: 2 * rootRadius,
+    circularPitch: Math.PI * params.module,
+    diametralPitch: moduleToDiametralPitch(params.module),
+    normalModule: params.module * Math.cos(params.helixAngle * Math.PI / 180),
+    axialPitch: params.helixAngle === 0
+      ? Infinity
+      : Math.PI * params.module / Math.abs(Math.tan(params.helixAngle * Math.PI / 180)),
+  };
+};
+
+/**
+ * The mating flank pushes back against the direction of rotation, and the
+ * helix turns part of that push along the axis. A right-hand driver turning
+ * counter-clockwise is pushed towards its front face; a herringbone's two
+ * halves cancel out.
+ */
+export const getAxialThrust = (params: GearParams): AxialThrust => {
+  if (params.helixAngle === 0) return 'none';
+  if (params.herringbone) return 'balanced';
+  return params.helixAngle > 0 ? 'front' : 'back';
+};
+
+export const toRadiusSet = (params: GearParams): RadiusSet => {
+  const { tipRadius, rootRadius } = getGearRadii(params);
+  return {
+    innerRadius: params.innerRadius,
+    outerRadius: rootRadius,
+    width: params.width,
+    teeth: params.teeth,
+    toothDepth: Math.abs(tipRadius - rootRadius),
+  };
+};
+
+/**
+ * Finds the engineering parameters that reproduce a radius set. The tooth
+ * depth fixes the module, and whatever is left between the root circle and
+ * the standard root becomes profile shift. Pressure angle and the
+ * addendum/dedendum coefficients are carried over from `base`.
+ */
+export const fromRadiusSet = (radii: RadiusSet, base: GearParams): GearParams => {
+  const teeth = Math.max(3, Math.round(radii.teeth));
+  const module = radii.toothDepth / (base.addendum + base.dedendum);
+  return {
+    ...base,
+    teeth,
+    module,
+    // An internal gear's root circle lies outside its pitch circle.
+    profileShift: base.gearType === 'internal'
+      ? radii.outerRadius / module - teeth / 2 - base.dedendum
+      : radii.outerRadius / module - teeth / 2 + base.dedendum,
+    innerRadius: radii.innerRadius,
+    width: radii.width,
+  };
+};
+
+/**
+ * Reads gear parameters saved with an earlier version of the model. Fields
+ * that are missing or of the wrong type fall back to the defaults; anything
+ * without a usable module and tooth count is rejected.
+ */
+export const parseGearParams = (value: unknown): GearParams | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.module !== 'number' || !(raw.module > 0) || typeof raw.teeth !== 'number' || !(raw.teeth >= 3)) {
+    return null;
+  }
+  const params: Record<string, unknown> = { ...DEFAULT_GEAR_PARAMS };
+  for (const key of Object.keys(DEFAULT_GEAR_PARAMS)) {
+    const fallback = params[key];
+    const field = raw[key];
+    if (typeof field === typeof fallback && (typeof field !== 'number' || Number.isFinite(field))) {
+      params[key] = field;
+    }
+  }
+  const parsed = params as unknown as GearParams;
+  if (!GEAR_TYPES.includes(parsed.gearType)) parsed.gearType = DEFAULT_GEAR_PARAMS.gearType;
+  if (!(['involute', 'simple'] as ToothProfileType[]).includes(parsed.profile)) parsed.profile = DEFAULT_GEAR_PARAMS.profile;
+  if (!MATERIALS.includes(parsed.material)) parsed.material = DEFAULT_GEAR_PARAMS.material;
+  if (!BORE_SHAPES.includes(parsed.boreShape)) parsed.boreShape = DEFAULT_GEAR_PARAMS.boreShape;
+  if (!KEYWAY_STANDARDS.includes(parsed.keywayStandard)) parsed.keywayStandard = DEFAULT_GEAR_PARAMS.keywayStandard;
+  if (!WEB_STYLES.includes(parsed.webStyle)) parsed.webStyle = DEFAULT_GEAR_PARAMS.webStyle;
+  if (!BELT_TYPES.includes(parsed.beltType)) parsed.beltType = DEFAULT_GEAR_PARAMS.beltType;
+  if (!BACKLASH_MODES.includes(parsed.backlashMode)) parsed.backlashMode = DEFAULT_GEAR_PARAMS.backlashMode;
+  if (!(parsed.chainPitch > 0)) parsed.chainPitch = DEFAULT_GEAR_PARAMS.chainPitch;
+  if (!(parsed.rollerDiameter > 0)) parsed.rollerDiameter = DEFAULT_GEAR_PARAMS.rollerDiameter;
+  return parsed;
+};
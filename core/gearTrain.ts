@@ -0,0 +1,109 @@
+// Gear trains: an ordered list of gears where each one either meshes with the
+// gear before it or shares its shaft as part of a compound gear.
+
+import { GearParams, DEFAULT_GEAR_PARAMS, isChainOrBelt } from './gearParams';
+import { analyzePair, getMatePhase } from './gearPair';
+
+// 'input' marks the first gear, which sits on the input shaft.
+export type TrainLink = 'input' | 'mesh' | 'compound';
+
+export interface TrainGear {
+  id: number;
+  params: GearParams;
+  link: TrainLink;
+  // Direction from the previous gear's shaft to this one, in degrees. Only used for 'mesh'.
+  meshAngle: number;
+}
+
+export interface PlacedGear {
+  gear: TrainGear;
+  name: string;
+  position: [number, number, number];
+  phase: number;
+  // Turns per turn of the input shaft; negative turns the other way.
+  speed: number;
+}
+
+export interface TrainAnalysis {
+  placed: PlacedGear[];
+  ratio: number; // input speed / output speed
+  outputSpeed: number; // signed, relative to the input
+  warnings: string[];
+}
+
+// Axial gap between the gears of a compound, in mm.
+const COMPOUND_GAP = 1;
+
+let nextGearId = 1;
+
+export const createTrainGear = (params: GearParams, link: TrainLink, meshAngle = 0): TrainGear => ({
+  id: nextGearId++,
+  params,
+  link,
+  meshAngle,
+});
+
+export const DEFAULT_TRAIN: TrainGear[] = [
+  createTrainGear(DEFAULT_GEAR_PARAMS, 'input'),
+  createTrainGear({ ...DEFAULT_GEAR_PARAMS, teeth: 40 }, 'mesh', 0),
+  createTrainGear({ ...DEFAULT_GEAR_PARAMS, teeth: 16 }, 'compound'),
+  createTrainGear({ ...DEFAULT_GEAR_PARAMS, teeth: 32 }, 'mesh', -60),
+];
+
+export const getGearName = (index: number) => `Gear ${index + 1}`;
+
+/** Places every gear of the train and works out its speed and mesh phase. */
+export const analyzeTrain = (train: TrainGear[]): TrainAnalysis => {
+  const placed: PlacedGear[] = [];
+  const warnings: string[] = [];
+
+  train.forEach((gear, index) => {
+    const name = getGearName(index);
+    const prev = placed[index - 1];
+
+    if (isChainOrBelt(gear.params.gearType)) {
+      warnings.push(`${name} is a ${gear.params.gearType}, which only drives another through a chain or belt, in the pair view.`);
+    } else if (gear.params.gearType !== 'external') {
+      warnings.push(`${name} is ${gear.params.gearType === 'rack' ? 'a rack' : 'an internal gear'}, which only meshes in the pair view.`);
+    }
+
+    if (!prev || gear.link === 'input') {
+      placed.push({ gear, name, position: [0, 0, 0], phase: 0, speed: 1 });
+      return;
+    }
+
+    const { params } = gear;
+    const prevParams = prev.gear.params;
+
+    if (gear.link === 'compound') {
+      // Stack the new gear behind its partner on the same shaft.
+      const z = prev.position[2] - (prevParams.width / 2 + COMPOUND_GAP + params.width / 2);
+      placed.push({ gear, name, position: [prev.position[0], prev.position[1], z], phase: prev.phase, speed: prev.speed });
+      return;
+    }
+
+    if (Math.abs(params.module - prevParams.module) > 1e-6 || params.pressureAngle !== prevParams.pressureAngle) {
+      warnings.push(`${prev.name} and ${name} need the same module and pressure angle to mesh.`);
+    }
+    if (params.helixAngle !== -prevParams.helixAngle || params.herringbone !== prevParams.herringbone) {
+      warnings.push(`${prev.name} and ${name} need equal and opposite helix angles to mesh.`);
+    }
+
+    const lineAngle = gear.meshAngle * Math.PI / 180;
+    const { centerDistance } = analyzePair(prevParams, params);
+    placed.push({
+      gear,
+      name,
+      position: [
+        prev.position[0] + centerDistance * Math.cos(lineAngle),
+        prev.position[1] + centerDistance * Math.sin(lineAngle),
+        prev.position[2],
+      ],
+      phase: getMatePhase(prevParams.teeth, params.teeth, prev.phase, lineAngle),
+      speed: -prev.speed * Math.round(prevParams.teeth) / Math.round(params.teeth),
+    });
+  });
+
+  const outputSpeed = placed.length > 0 ? placed[placed.length - 1].speed : 1;
+  return { placed, ratio: 1 / Math.abs(outputSpeed), outputSpeed, warnings };
+};
@@ -0,0 +1,19 @@
+// The triangle mesh every generator produces and every exporter consumes.
+
+export interface Geometry {
+  vertices: number[];
+  normals: number[];
+  indices: number[];
+}
+
+export type Color = [number, number, number];
+
+/**
+ * A fixed rotation of a part about a unit axis through its origin, in
+ * radians. It swings the part's own z axis, which the part turns about, to
+ * point elsewhere in the scene.
+ */
+export interface Tilt {
+  axis: [number, number, number];
+  angle: number;
+}
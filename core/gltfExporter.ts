@@ -0,0 +1,246 @@
+// Simple, dependency-free functions to export geometry to a GLB file.
+
+import { Geometry, Tilt } from './geometry';
+
+export interface ExportMaterial {
+    name: string;
+    // Base colour as drawn on screen, in sRGB.
+    color: [number, number, number];
+    metallic: number;
+    roughness: number;
+}
+
+/** A written file: bytes for binary formats, text for the others. */
+export interface ExportedFile {
+    data: ArrayBuffer | string;
+    mimeType: string;
+}
+
+export interface ExportNode {
+    name: string;
+    geometry: Geometry;
+    translation?: [number, number, number];
+    // Rotation about the node's z axis, in radians.
+    angle?: number;
+    // Applied after `angle`, to point the node's z axis elsewhere.
+    tilt?: Tilt;
+    material?: ExportMaterial;
+    // Written to the node's `extras`, e.g. the parameters that made the mesh.
+    extras?: Record<string, unknown>;
+    // A line of text for formats with no room for `extras`, e.g. the fit allowances the part was made with.
+    notes?: string;
+}
+
+// glTF lengths are metres; the model is in millimetres.
+const METRES_PER_MM = 0.001;
+
+// Name of the root node that scales the millimetre model into metres.
+export const GLTF_ROOT_NAME = 'Gears (mm)';
+
+// Unsigned short indices stop at 65,534; 65,535 is reserved for primitive restart.
+const MAX_SHORT_VERTICES = 65535;
+
+const DEFAULT_MATERIAL: ExportMaterial = { name: 'Default', color: [0.5, 0.6, 0.8], metallic: 0.1, roughness: 0.6 };
+
+// glTF colour factors are linear, while the viewer's colours go to the screen as sRGB.
+const srgbToLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+
+// The node's rotation as a quaternion [x, y, z, w]: the tilt after the turn about z.
+const nodeRotation = (angle: number, tilt?: Tilt): number[] => {
+    const spin = [0, 0, Math.sin(angle / 2), Math.cos(angle / 2)];
+    if (!tilt) return spin;
+    const s = Math.sin(tilt.angle / 2);
+    const [ax, ay, az, aw] = [tilt.axis[0] * s, tilt.axis[1] * s, tilt.axis[2] * s, Math.cos(tilt.angle / 2)];
+    const [bx, by, bz, bw] = spin;
+    return [
+        aw * bx + ax * bw + ay * bz - az * by,
+        aw * by - ax * bz + ay * bw + az * bx,
+        aw * bz + ax * by - ay * bx + az * bw,
+        aw * bw - ax * bx - ay * by - az * bz,
+    ];
+};
+
+export const exportGLB = (geometry: Geometry): ExportedFile => exportSceneGLB([{ name: 'Gear', geometry }]);
+
+/**
+ * Writes each node as its own named mesh so the parts stay separate in the
+ * imported scene. The nodes hang under a root node that scales millimetres to
+ * metres, and nodes made of the same material share a glTF material.
+ */
+export const exportSceneGLB = (nodes: ExportNode[]): ExportedFile => {
+    const meshData = nodes.map(({ geometry }) => {
+        const positions = new Float32Array(geometry.vertices);
+        const normalData = new Float32Array(geometry.normals);
+
+        const vertexCount = positions.length / 3;
+        const wideIndices = vertexCount > MAX_SHORT_VERTICES;
+        const indexData = wideIndices ? new Uint32Array(geometry.indices) : new Uint16Array(geometry.indices);
+
+        // Find min/max for positions, which is required by glTF
+        const minPos = [Infinity, Infinity, Infinity];
+        const maxPos = [-Infinity, -Infinity, -Infinity];
+        for (let i = 0; i < vertexCount; i++) {
+            for (let j = 0; j < 3; j++) {
+                const v = positions[i * 3 + j];
+                minPos[j] = Math.min(minPos[j], v);
+                maxPos[j] = Math.max(maxPos[j], v);
+            }
+        }
+        return { positions, normalData, indexData, wideIndices, vertexCount, minPos, maxPos };
+    });
+
+    const materials: object[] = [];
+    const materialKeys: string[] = [];
+    const materialIndices = nodes.map(({ material = DEFAULT_MATERIAL }) => {
+        const { name, color, metallic, roughness } = material;
+        const key = [name, ...color, metallic, roughness].join(',');
+        let index = materialKeys.indexOf(key);
+        if (index < 0) {
+            index = materialKeys.push(key) - 1;
+            materials.push({
+                name,
+                pbrMetallicRoughness: {
+                    baseColorFactor: [...color.map(srgbToLinear), 1],
+                    metallicFactor: metallic,
+                    roughnessFactor: roughness,
+                },
+            });
+        }
+        return index;
+    });
+
+    // --- Create the binary buffer ---
+    // Per mesh: positions | normals | indices, padded so the next mesh starts 4-byte aligned.
+    const binaryBufferLength = meshData.reduce(
+        (total, { positions, normalData, indexData }) =>
+            total + positions.byteLength + normalData.byteLength + Math.ceil(indexData.byteLength / 4) * 4,
+        0
+    );
+
+    const binaryBuffer = new ArrayBuffer(binaryBufferLength);
+    const dataView = new DataView(binaryBuffer);
+
+    const bufferViews: object[] = [];
+    const accessors: object[] = [];
+    const meshes: object[] = [];
+
+    // Copy data into the buffer
+    let byteOffset = 0;
+    meshData.forEach(({ positions, normalData, indexData, wideIndices, vertexCount, minPos, maxPos }, meshIndex) => {
+        const positionsByteOffset = byteOffset;
+        for (let i = 0; i < positions.length; i++) {
+            dataView.setFloat32(byteOffset, positions[i], true);
+            byteOffset += 4;
+        }
+        const normalsByteOffset = byteOffset;
+        for (let i = 0; i < normalData.length; i++) {
+            dataView.setFloat32(byteOffset, normalData[i], true);
+            byteOffset += 4;
+        }
+        const indicesByteOffset = byteOffset;
+        for (let i = 0; i < indexData.length; i++) {
+            if (wideIndices) {
+                dataView.setUint32(byteOffset, indexData[i], true);
+            } else {
+                dataView.setUint16(byteOffset, indexData[i], true);
+            }
+            byteOffset += indexData.BYTES_PER_ELEMENT;
+        }
+        byteOffset = Math.ceil(byteOffset / 4) * 4;
+
+        const first = meshIndex * 3;
+        bufferViews.push(
+            { buffer: 0, byteOffset: indicesByteOffset, byteLength: indexData.byteLength, target: 34963 }, // ELEMENT_ARRAY_BUFFER
+            { buffer: 0, byteOffset: positionsByteOffset, byteLength: positions.byteLength, target: 34962 }, // ARRAY_BUFFER
+            { buffer: 0, byteOffset: normalsByteOffset, byteLength: normalData.byteLength, target: 34962 }, // ARRAY_BUFFER
+        );
+        accessors.push(
+            { bufferView: first, componentType: wideIndices ? 5125 : 5123, count: indexData.length, type: 'SCALAR' }, // UNSIGNED_INT or UNSIGNED_SHORT
+            { bufferView: first + 1, componentType: 5126, count: vertexCount, type: 'VEC3', min: minPos, max: maxPos }, // FLOAT
+            { bufferView: first + 2, componentType: 5126, count: vertexCount, type: 'VEC3' }, // FLOAT
+        );
+        meshes.push({
+            name: nodes[meshIndex].name,
+            primitives: [{
+                attributes: {
+                    POSITION: first + 1, // accessor index
+                    NORMAL: first + 2,   // accessor index
+                },
+                indices: first, // accessor index
+                material: materialIndices[meshIndex],
+            }],
+        });
+    });
+
+    // --- Create the JSON chunk ---
+    const rootIndex = nodes.length;
+    const json = {
+        asset: { version: '2.0', generator: 'Interactive Gear Modeler' },
+        scene: 0,
+        scenes: [{ nodes: [rootIndex] }],
+        nodes: [
+            ...nodes.map(({ name, translation, angle, tilt, extras }, i) => ({
+                name,
+                mesh: i,
+                ...(translation ? { translation } : {}),
+                ...(angle || tilt ? { rotation: nodeRotation(angle ?? 0, tilt) } : {}),
+                ...(extras ? { extras } : {}),
+            })),
+            {
+                name: GLTF_ROOT_NAME,
+                children: nodes.map((_, i) => i),
+                scale: [METRES_PER_MM, METRES_PER_MM, METRES_PER_MM],
+                extras: { lengthUnit: 'mm' },
+            },
+        ],
+        materials,
+        meshes,
+        buffers: [{ byteLength: binaryBufferLength }],
+        bufferViews,
+        accessors,
+    };
+
+    const jsonString = JSON.stringify(json);
+    const jsonByteLength = new TextEncoder().encode(jsonString).length;
+
+    // --- Create the final GLB file ---
+    // GLB format: Header | JSON chunk | Binary chunk
+    const headerByteLength = 12;
+    const jsonChunkLength = Math.ceil(jsonByteLength / 4) * 4; // Must be 4-byte aligned
+    const binaryChunkLength = binaryBufferLength;
+    const totalByteLength = headerByteLength + 8 + jsonChunkLength + 8 + binaryChunkLength;
+
+    const glbBuffer = new ArrayBuffer(totalByteLength);
+    const glbView = new DataView(glbBuffer);
+    const textEncoder = new TextEncoder();
+
+    // Header
+    glbView.setUint32(0, 0x46546C67, true); // "glTF"
+    glbView.setUint32(4, 2, true); // version 2
+    glbView.setUint32(8, totalByteLength, true);
+
+    let offset = headerByteLength;
+
+    // JSON Chunk
+    glbView.setUint32(offset, jsonChunkLength, true);
+    offset += 4;
+    glbView.setUint32(offset, 0x4E4F534A, true); // "JSON"
+    offset += 4;
+    const jsonBytes = textEncoder.encode(jsonString);
+    const glbBytes = new Uint8Array(glbBuffer);
+    glbBytes.set(jsonBytes, offset);
+    // Pad with spaces
+    for (let i = jsonByteLength; i < jsonChunkLength; i++) {
+        glbBytes[offset + i] = 0x20; // space
+    }
+    offset += jsonChunkLength;
+
+    // Binary Chunk
+    glbView.setUint32(offset, binaryChunkLength, true);
+    offset += 4;
+    glbView.setUint32(offset, 0x004E4942, true); // "BIN"
+    offset += 4;
+    glbBytes.set(new Uint8Array(binaryBuffer), offset);
+
+    return { data: glbBuffer, mimeType: 'model/gltf-binary' };
+};
@@ -0,0 +1,256 @@
+// Reads GLB files back in: the reverse of gltfExporter. Meshes are flattened
+// into millimetre geometry in scene space, and gear parameters are recovered
+// from node `extras` where the exporter left them.
+
+import { Geometry } from './geometry';
+import { GearParams, parseGearParams } from './gearParams';
+
+export interface ImportedMesh {
+  name: string;
+  geometry: Geometry;
+}
+
+export interface ImportedGear {
+  name: string;
+  params: GearParams;
+}
+
+export interface ImportedGLB {
+  meshes: ImportedMesh[];
+  gears: ImportedGear[];
+}
+
+const GLB_MAGIC = 0x46546C67; // "glTF"
+const CHUNK_JSON = 0x4E4F534A; // "JSON"
+const CHUNK_BIN = 0x004E4942; // "BIN"
+
+const TRIANGLES = 4;
+const COMPONENT_SIZES: Record<number, number> = { 5121: 1, 5123: 2, 5125: 4, 5126: 4 };
+const TYPE_SIZES: Record<string, number> = { SCALAR: 1, VEC3: 3 };
+
+// glTF lengths are metres.
+const MM_PER_METRE = 1000;
+
+// Only the parts of the glTF schema the importer reads.
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  count: number;
+  type: string;
+  sparse?: unknown;
+}
+
+interface GltfBufferView {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+}
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  indices?: number;
+  mode?: number;
+}
+
+interface GltfNode {
+  name?: string;
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  extras?: Record<string, unknown>;
+}
+
+interface GltfDocument {
+  asset?: { version?: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { name?: string; primitives: GltfPrimitive[] }[];
+  accessors?: GltfAccessor[];
+  bufferViews?: GltfBufferView[];
+  buffers?: { byteLength: number; uri?: string }[];
+}
+
+// --- Column-major 4x4 matrices ---
+type Mat4 = number[];
+
+const IDENTITY: Mat4 = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+const multiply = (a: Mat4, b: Mat4): Mat4 => {
+  const out = new Array(16).fill(0);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      for (let k = 0; k < 4; k++) out[col * 4 + row] += a[k * 4 + row] * b[col * 4 + k];
+    }
+  }
+  return out;
+};
+
+const nodeMatrix = (node: GltfNode): Mat4 => {
+  if (node.matrix) return node.matrix;
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, (2 * (x * y + z * w)) * sx, (2 * (x * z - y * w)) * sx, 0,
+    (2 * (x * y - z * w)) * sy, (1 - 2 * (x * x + z * z)) * sy, (2 * (y * z + x * w)) * sy, 0,
+    (2 * (x * z + y * w)) * sz, (2 * (y * z - x * w)) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1,
+  ];
+};
+
+const fail = (message: string): never => {
+  throw new Error(`Cannot import GLB: ${message}`);
+};
+
+const splitChunks = (buffer: ArrayBuffer): { json: GltfDocument; bin: DataView | null } => {
+  if (buffer.byteLength < 20) fail('the file is too short to be a GLB.');
+  const view = new DataView(buffer);
+  if (view.getUint32(0, true) !== GLB_MAGIC) fail('the file is not a binary glTF (.glb) file.');
+  const version = view.getUint32(4, true);
+  if (version !== 2) fail(`glTF version ${version} is not supported; only version 2 is.`);
+  const length = view.getUint32(8, true);
+  if (length > buffer.byteLength) fail(`the header claims ${length} bytes but the file has ${buffer.byteLength}; it may be truncated.`);
+
+  let json: GltfDocument | null = null;
+  let bin: DataView | null = null;
+  let offset = 12;
+  while (offset + 8 <= length) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    if (start + chunkLength > length) fail('a chunk runs past the end of the file.');
+    if (chunkType === CHUNK_JSON && !json) {
+      try {
+        json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, start, chunkLength)));
+      } catch {
+        fail('the JSON chunk is not valid JSON.');
+      }
+    } else if (chunkType === CHUNK_BIN && !bin) {
+      bin = new DataView(buffer, start, chunkLength);
+    }
+    // Unknown chunk types are skipped, as the spec asks.
+    offset = start + chunkLength;
+  }
+  if (!json) return fail('the file has no JSON chunk.');
+  if (!json.asset?.version?.startsWith('2.')) fail('the JSON chunk is not a glTF 2.0 asset.');
+  return { json, bin };
+};
+
+const readAccessor = (doc: GltfDocument, bin: DataView | null, index: number, expectedType: string): number[] => {
+  const accessor = doc.accessors?.[index] ?? fail(`accessor ${index} is missing.`);
+  if (accessor.sparse) fail('sparse accessors are not supported.');
+  if (accessor.type !== expectedType) fail(`accessor ${index} is ${accessor.type}, expected ${expectedType}.`);
+  const componentSize = COMPONENT_SIZES[accessor.componentType] ?? fail(`component type ${accessor.componentType} is not supported.`);
+  const components = TYPE_SIZES[accessor.type];
+  if (accessor.bufferView === undefined) return new Array(accessor.count * components).fill(0);
+
+  const bufferView = doc.bufferViews?.[accessor.bufferView] ?? fail(`buffer view ${accessor.bufferView} is missing.`);
+  const buffer = doc.buffers?.[bufferView.buffer];
+  if (!buffer || buffer.uri !== undefined || bufferView.buffer !== 0) fail('external buffers are not supported; only data embedded in the GLB is.');
+  if (!bin) return fail('the file has no BIN chunk to hold its geometry.');
+
+  const stride = bufferView.byteStride ?? componentSize * components;
+  const start = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+  const end = start + stride * (accessor.count - 1) + componentSize * components;
+  if (accessor.count > 0 && end > bin.byteLength) fail(`accessor ${index} reads past the end of the BIN chunk.`);
+
+  const read = (offset: number) => {
+    switch (accessor.componentType) {
+      case 5121: return bin.getUint8(offset);
+      case 5123: return bin.getUint16(offset, true);
+      case 5125: return bin.getUint32(offset, true);
+      default: return bin.getFloat32(offset, true);
+    }
+  };
+  const values: number[] = [];
+  for (let i = 0; i < accessor.count; i++) {
+    for (let j = 0; j < components; j++) values.push(read(start + i * stride + j * componentSize));
+  }
+  return values;
+};
+
+// Area-weighted vertex normals, for files that carry none.
+const computeNormals = (vertices: number[], indices: number[]): number[] => {
+  const normals = new Array(vertices.length).fill(0);
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i] * 3, indices[i + 1] * 3, indices[i + 2] * 3];
+    const u = [0, 1, 2].map(j => vertices[b + j] - vertices[a + j]);
+    const v = [0, 1, 2].map(j => vertices[c + j] - vertices[a + j]);
+    const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    for (const corner of [a, b, c]) for (let j = 0; j < 3; j++) normals[corner + j] += n[j];
+  }
+  return normals;
+};
+
+const readPrimitive = (doc: GltfDocument, bin: DataView | null, primitive: GltfPrimitive, matrix: Mat4): Geometry => {
+  if ((primitive.mode ?? TRIANGLES) !== TRIANGLES) fail('only triangle meshes are supported.');
+  if (primitive.attributes.POSITION === undefined) fail('a mesh has no POSITION attribute.');
+  const positions = readAccessor(doc, bin, primitive.attributes.POSITION, 'VEC3');
+  const count = positions.length / 3;
+  const indices = primitive.indices !== undefined
+    ? readAccessor(doc, bin, primitive.indices, 'SCALAR')
+    : Array.from({ length: count }, (_, i) => i);
+  if (indices.some(index => index >= count)) fail('a mesh has indices past the end of its vertices.');
+  const normals = primitive.attributes.NORMAL !== undefined
+    ? readAccessor(doc, bin, primitive.attributes.NORMAL, 'VEC3')
+    : computeNormals(positions, indices);
+
+  // Bake the node transform in, converting metres to millimetres.
+  const vertices: number[] = [];
+  const turned: number[] = [];
+  for (let i = 0; i < positions.length; i += 3) {
+    const [x, y, z] = [positions[i], positions[i + 1], positions[i + 2]];
+    const [nx, ny, nz] = [normals[i], normals[i + 1], normals[i + 2]];
+    for (let j = 0; j < 3; j++) {
+      vertices.push((matrix[j] * x + matrix[4 + j] * y + matrix[8 + j] * z + matrix[12 + j]) * MM_PER_METRE);
+    }
+    const n = [0, 1, 2].map(j => matrix[j] * nx + matrix[4 + j] * ny + matrix[8 + j] * nz);
+    const length = Math.hypot(n[0], n[1], n[2]) || 1;
+    turned.push(n[0] / length, n[1] / length, n[2] / length);
+  }
+  return { vertices, normals: turned, indices };
+};
+
+/**
+ * Parses a GLB file. Throws an Error with a readable message when the file
+ * is malformed or uses glTF features the importer does not read.
+ */
+export const importGLB = (buffer: ArrayBuffer): ImportedGLB => {
+  const { json: doc, bin } = splitChunks(buffer);
+  const nodes = doc.nodes ?? [];
+  const sceneIndex = doc.scene ?? 0;
+  const roots = doc.scenes?.[sceneIndex]?.nodes ?? nodes.map((_, i) => i);
+
+  const meshes: ImportedMesh[] = [];
+  const gears: ImportedGear[] = [];
+  const visit = (index: number, parent: Mat4, depth: number) => {
+    const node = nodes[index] ?? fail(`node ${index} is missing.`);
+    if (depth > nodes.length) fail('the node hierarchy contains a cycle.');
+    const matrix = multiply(parent, nodeMatrix(node));
+    const name = node.name ?? `Node ${index}`;
+
+    if (node.mesh !== undefined) {
+      const mesh = doc.meshes?.[node.mesh] ?? fail(`mesh ${node.mesh} is missing.`);
+      mesh.primitives.forEach((primitive, i) => {
+        meshes.push({
+          name: mesh.primitives.length > 1 ? `${name} (${i + 1})` : name,
+          geometry: readPrimitive(doc, bin, primitive, matrix),
+        });
+      });
+    }
+    const params = parseGearParams(node.extras?.gear);
+    if (params) gears.push({ name, params });
+
+    node.children?.forEach(child => visit(child, matrix, depth + 1));
+  };
+  roots.forEach(root => visit(root, IDENTITY, 0));
+
+  if (meshes.length === 0) fail('the file contains no meshes.');
+  return { meshes, gears };
+};
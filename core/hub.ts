@@ -0,0 +1,499 @@
+// Hub features of an external gear, sprocket or pulley: shaped bores (keyway, D-flat, hex), a
+// hub that can stand proud of the face, a web that can be recessed and cut
+// into spokes or lightening holes, and radial set-screw holes. The gear is
+// built as concentric rings of material, each with its own thickness:
+//
+//   bore ─ hub ─ web ─ rim ─ teeth
+//
+// A pulley's flanges are a further ring either side of its teeth.
+//
+// Neighbouring rings share the loop between them, and the loop's wall is
+// only drawn where one ring stands taller than the other.
+
+import { Point2 } from './toothProfile';
+import { GearParams, KeywayStandard, MM_PER_INCH } from './gearParams';
+import {
+  MeshBuilder, Point3, Profile2D, Sweep, capBetween, createMeshBuilder, wallThrough, zipChains,
+} from './extrude';
+import { Geometry } from './geometry';
+import { Flange } from './pulley';
+import { getBoreOffset, getCutoutInset, offsetOutline } from './allowance';
+
+// Segments in a full circle of the hub, the bore and the web's cutouts.
+const CIRCLE_SEGMENTS = 48;
+// Segments around a set-screw hole.
+const HOLE_SEGMENTS = 16;
+// The thinnest wall of material the hub features leave anywhere, in mm.
+const MIN_WALL = 0.5;
+// The narrowest web worth recessing or cutting, in mm.
+const MIN_WEB_SPAN = 2;
+
+interface Keyway {
+  width: number;
+  // Beyond the bore: DIN 6885 measures t2 from the bore circle on the
+  // keyway's centre line, ANSI B17.1 from the bore's edge at the keyway's side.
+  depth: number;
+  fromSide: boolean;
+}
+
+// DIN 6885-1: largest shaft diameter, key width and hub keyway depth t2, in mm.
+const DIN_6885: [number, number, number][] = [
+  [8, 2, 1.0], [10, 3, 1.4], [12, 4, 1.8], [17, 5, 2.3], [22, 6, 2.8],
+  [30, 8, 3.3], [38, 10, 3.3], [44, 12, 3.3], [50, 14, 3.8], [58, 16, 4.3],
+];
+const DIN_6885_MIN_BORE = 6;
+
+// ANSI B17.1 square keys: largest shaft diameter and key width, in inches.
+// The hub keyway is half the key deep.
+const ANSI_B17_1: [number, number][] = [
+  [7 / 16, 3 / 32], [9 / 16, 1 / 8], [7 / 8, 3 / 16], [1.25, 1 / 4],
+  [1.375, 5 / 16], [1.75, 3 / 8], [2.25, 1 / 2], [2.75, 5 / 8],
+];
+const ANSI_B17_1_MIN_BORE = 5 / 16;
+
+// The standard hub keyway for a bore, or null when the bore is outside the standard's table.
+const getKeyway = (standard: KeywayStandard, boreDiameter: number): Keyway | null => {
+  if (standard === 'din6885') {
+    if (boreDiameter < DIN_6885_MIN_BORE) return null;
+    const row = DIN_6885.find(([maxBore]) => boreDiameter <= maxBore);
+    return row ? { width: row[1], depth: row[2], fromSide: false } : null;
+  }
+  const inches = boreDiameter / MM_PER_INCH;
+  if (inches < ANSI_B17_1_MIN_BORE) return null;
+  const row = ANSI_B17_1.find(([maxBore]) => inches <= maxBore);
+  return row ? { width: row[1] * MM_PER_INCH, depth: row[1] / 2 * MM_PER_INCH, fromSide: true } : null;
+};
+
+const arc = (radius: number, from: number, to: number, center: Point2 = [0, 0]): Point2[] => {
+  const count = Math.max(1, Math.ceil(Math.abs(to - from) / (2 * Math.PI / CIRCLE_SEGMENTS)));
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const angle = from + (to - from) * i / count;
+    return [center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)];
+  });
+};
+
+const circle = (radius: number): Point2[] => arc(radius, -Math.PI, Math.PI).slice(0, -1);
+
+const rotateAll = (points: Point2[], angle: number): Point2[] => {
+  const c = Math.cos(angle), s = Math.sin(angle);
+  return points.map(([x, y]) => [x * c - y * s, x * s + y * c]);
+};
+
+// The bore, counter-clockwise. Keyways and flats face +x.
+const createBoreOutline = (params: GearParams, keyway: Keyway | null): Point2[] => {
+  const r = params.innerRadius;
+  switch (params.boreShape) {
+    case 'keyway': {
+      if (!keyway) return circle(r);
+      const half = keyway.width / 2;
+      const edge = Math.asin(Math.min(1, half / r));
+      const x = (keyway.fromSide ? r * Math.cos(edge) : r) + keyway.depth;
+      return [...arc(r, edge, 2 * Math.PI - edge), [x, -half], [x, half]];
+    }
+    case 'dFlat': {
+      // A D-shaft's flat takes a tenth of its diameter off one side.
+      const edge = Math.acos(0.8);
+      return arc(r, edge, 2 * Math.PI - edge);
+    }
+    case 'hex':
+      return Array.from({ length: 6 }, (_, i): Point2 => {
+        const angle = (i - 0.5) * Math.PI / 3;
+        return [r / Math.cos(Math.PI / 6) * Math.cos(angle), r / Math.cos(Math.PI / 6) * Math.sin(angle)];
+      });
+    default:
+      return circle(r);
+  }
+};
+
+export interface HubLayout {
+  bore: Point2[];
+  // How far the bore reaches from the axis, out to a keyway's floor or a hex's corners.
+  boreReach: number;
+  // Outer radius of the hub, or null when the bore runs straight into the teeth.
+  hubRadius: number | null;
+  // Inner radius of the rim, or null when the gear has no web.
+  rimRadius: number | null;
+  webThickness: number;
+  // z of the hub's front face; its back face is flush with the gear's.
+  hubFront: number;
+  // Web cutouts, each a clockwise loop.
+  cutouts: Point2[][];
+  // Where the cutouts leave the web, for the web's faces: the loop the hub
+  // side of the web runs out to, and the loop the rim side runs in from.
+  webInner: Point2[];
+  webOuter: Point2[];
+  setScrews: { angle: number; z: number; radius: number }[];
+  warnings: string[];
+}
+
+// The cutouts and the two loops that skirt them. Between cutouts both loops
+// follow the same arc through the solid web. Each cutout's edges move `inset`
+// into it, or null when that closes the cutouts up.
+const layOutCutouts = (params: GearParams, hubRadius: number, rimRadius: number, inset: number) => {
+  const count = Math.max(2, Math.round(params.webCutouts));
+  const span = rimRadius - hubRadius;
+  const margin = span * 0.2;
+  const inner: Point2[] = [];
+  const outer: Point2[] = [];
+  const cutouts: Point2[][] = [];
+  // Each cutout lies between angles `from` and `to` as seen from the axis; its
+  // near side faces the hub and its far side the rim.
+  const add = (near: Point2[], far: Point2[], link: Point2[]) => {
+    inner.push(...near, ...link);
+    outer.push(...far, ...link);
+    cutouts.push([...near, ...far.slice(1, -1).reverse()]);
+  };
+
+  if (params.webStyle === 'spokes') {
+    const r1 = hubRadius + margin + inset, r2 = rimRadius - margin - inset;
+    const halfSpoke = Math.PI * (r1 - inset) / count * 0.4 + inset;
+    if (r2 <= r1 || halfSpoke >= r1 * Math.sin(Math.PI / count)) return null;
+    for (let k = 0; k < count; k++) {
+      const spoke = 2 * Math.PI * k / count, nextSpoke = spoke + 2 * Math.PI / count;
+      // Straight-sided spokes: each window's sides run parallel to the spoke beside it.
+      const side = (r: number) => Math.asin(halfSpoke / r);
+      const corner = (r: number, sign: number): Point2 => [r * Math.cos(side(r)), sign * halfSpoke];
+      const near = [
+        ...rotateAll([corner(r2, 1), corner(r1, 1)], spoke),
+        ...arc(r1, spoke + side(r1), nextSpoke - side(r1)).slice(1, -1),
+        ...rotateAll([corner(r1, -1), corner(r2, -1)], nextSpoke),
+      ];
+      const far = arc(r2, spoke + side(r2), nextSpoke - side(r2));
+      far[0] = near[0];
+      far[far.length - 1] = near[near.length - 1];
+      const link = arc(r2, nextSpoke - side(r2), nextSpoke + side(r2)).slice(1, -1);
+      add(near, far, link);
+    }
+  } else {
+    const center = (hubRadius + rimRadius) / 2;
+    const radius = Math.min(span / 2 - margin, center * Math.sin(Math.PI / count) - margin / 2) - inset;
+    if (radius <= 0) return null;
+    // Seen from the axis, a hole spans the angles between its two tangent points.
+    const reach = Math.asin(radius / center);
+    const tangent = Math.PI / 2 + reach;
+    const linkRadius = Math.sqrt(center * center - radius * radius);
+    for (let k = 0; k < count; k++) {
+      const angle = 2 * Math.PI * k / count;
+      const hole = (from: number, to: number) =>
+        rotateAll(arc(radius, from, to, [center, 0]), angle);
+      const near = hole(2 * Math.PI - tangent, tangent);
+      const far = hole(-tangent, tangent);
+      far[0] = near[0];
+      far[far.length - 1] = near[near.length - 1];
+      const link = arc(linkRadius, angle + reach, angle + 2 * Math.PI / count - reach).slice(1, -1);
+      add(near, far, link);
+    }
+  }
+  return { inner, outer, cutouts };
+};
+
+/**
+ * Fits the hub features to the gear. Features that do not fit are dropped
+ * with a warning rather than producing a broken solid.
+ */
+export const getHubLayout = (params: GearParams, rootRadius: number): HubLayout => {
+  const warnings: string[] = [];
+  const { width } = params;
+  const boreDiameter = 2 * params.innerRadius;
+
+  let keyway: Keyway | null = null;
+  if (params.boreShape === 'keyway') {
+    keyway = getKeyway(params.keywayStandard, boreDiameter);
+    if (!keyway) {
+      warnings.push(`No ${params.keywayStandard === 'din6885' ? 'DIN 6885' : 'ANSI B17.1'} keyway fits a ${boreDiameter.toFixed(1)} mm bore; the bore is left round.`);
+    }
+  }
+  // The keyway is sized for the nominal bore; the fit allowance and kerf then move the whole outline.
+  const bore = offsetOutline(createBoreOutline(params, keyway), getBoreOffset(params));
+  const boreReach = Math.max(...bore.map(([x, y]) => Math.hypot(x, y)));
+
+  const wantsWeb = params.webStyle !== 'solid';
+  const wantsHub = wantsWeb || params.hubProjection > 0;
+  let hubRadius: number | null = null;
+  let rimRadius: number | null = null;
+  if (wantsHub) {
+    hubRadius = Math.max(params.hubDiameter / 2, boreReach + MIN_WALL);
+    if (hubRadius > rootRadius - MIN_WALL) {
+      warnings.push('The hub is as large as the root circle; make it smaller or the bore smaller.');
+      hubRadius = null;
+    }
+  }
+  if (wantsWeb && hubRadius !== null) {
+    rimRadius = rootRadius - params.rimThickness;
+    if (rimRadius - hubRadius < MIN_WEB_SPAN) {
+      warnings.push('The rim and hub leave no room for a web; reduce the hub diameter or the rim thickness.');
+      rimRadius = null;
+    }
+  }
+  const webThickness = rimRadius === null ? width : Math.max(MIN_WALL, Math.min(params.webThickness, width));
+  const hubFront = width / 2 + (hubRadius === null ? 0 : Math.max(0, params.hubProjection));
+
+  let cutouts: Point2[][] = [];
+  let webInner: Point2[] = [];
+  let webOuter: Point2[] = [];
+  if (hubRadius !== null && rimRadius !== null) {
+    if (params.webStyle === 'recessed') {
+      webInner = webOuter = circle(rimRadius);
+    } else {
+      const web = layOutCutouts(params, hubRadius, rimRadius, getCutoutInset(params));
+      if (web) {
+        ({ inner: webInner, outer: webOuter, cutouts } = web);
+      } else {
+        warnings.push('The kerf closes up the web\'s cutouts; they are left out.');
+        webInner = webOuter = circle(rimRadius);
+      }
+    }
+  }
+
+  // Set screws go through the part of the hub that stands clear of the web.
+  const setScrews: HubLayout['setScrews'] = [];
+  const count = Math.max(0, Math.round(params.setScrews));
+  if (count > 0) {
+    const exposedFrom = rimRadius === null ? width / 2 : webThickness / 2;
+    const exposed = hubFront - exposedFrom;
+    const radius = params.setScrewDiameter / 2;
+    if (hubRadius === null || exposed < 2 * radius + 2 * MIN_WALL) {
+      warnings.push('Set screws need the hub to stand clear of the web; add hub projection or recess the web.');
+    } else {
+      // Screws sit 90° round from a keyway, on a D-flat's flat and on a hex bore's faces.
+      const first = params.boreShape === 'keyway' && keyway ? Math.PI / 2 : 0;
+      for (let k = 0; k < count; k++) {
+        setScrews.push({ angle: first + 2 * Math.PI * k / count, z: (exposedFrom + hubFront) / 2, radius });
+      }
+    }
+  }
+
+  return { bore, boreReach, hubRadius, rimRadius, webThickness, hubFront, cutouts, webInner, webOuter, setScrews, warnings };
+};
+
+/** The flat profile: teeth outside, the bore and any web cutouts as holes. */
+export const flattenHub = (outline: Point2[], layout: HubLayout): Profile2D => ({
+  outer: outline,
+  holes: [[...layout.bore].reverse(), ...layout.cutouts],
+});
+
+// --- Set-screw holes ---
+interface Footprint {
+  points: Point3[];
+  s: number[]; // arc length along the loop the hole passes through
+}
+
+// The length of each edge of a closed loop, the distance along the loop to
+// each of its points, and the loop's perimeter.
+const measureLoop = (loop: Point2[]) => {
+  const lengths = loop.map((p, i) => {
+    const q = loop[(i + 1) % loop.length];
+    return Math.hypot(q[0] - p[0], q[1] - p[1]);
+  });
+  const starts: number[] = [];
+  let total = 0;
+  for (const length of lengths) {
+    starts.push(total);
+    total += length;
+  }
+  return { lengths, starts, total };
+};
+
+// Where a radial hole of the given radius, on the given angle and height,
+// passes through a loop. Each point lies on the loop's own segments, so the
+// wall around the hole and the hole's bore meet exactly.
+const holeFootprint = (loop: Point2[], screw: HubLayout['setScrews'][number]): Footprint => {
+  const dir: Point2 = [Math.cos(screw.angle), Math.sin(screw.angle)];
+  const across: Point2 = [-dir[1], dir[0]];
+  const { lengths, starts } = measureLoop(loop);
+
+  const points: Point3[] = [];
+  const s: number[] = [];
+  for (let k = 0; k < HOLE_SEGMENTS; k++) {
+    const psi = 2 * Math.PI * k / HOLE_SEGMENTS;
+    const offset = screw.radius * Math.cos(psi);
+    const z = screw.z + screw.radius * Math.sin(psi);
+    const origin: Point2 = [across[0] * offset, across[1] * offset];
+    // The hole runs outwards, so take the farthest crossing along it.
+    let best = -Infinity, bestS = 0;
+    loop.forEach((p, i) => {
+      const q = loop[(i + 1) % loop.length];
+      const e: Point2 = [q[0] - p[0], q[1] - p[1]];
+      const denominator = dir[0] * e[1] - dir[1] * e[0];
+      if (Math.abs(denominator) < 1e-12) return;
+      const w: Point2 = [p[0] - origin[0], p[1] - origin[1]];
+      const u = (w[0] * e[1] - w[1] * e[0]) / denominator;
+      const t = (w[0] * dir[1] - w[1] * dir[0]) / denominator;
+      if (t >= 0 && t <= 1 && u > best) {
+        best = u;
+        bestS = starts[i] + t * lengths[i];
+      }
+    });
+    points.push([origin[0] + dir[0] * best, origin[1] + dir[1] * best, z]);
+    s.push(bestS);
+  }
+  return { points, s };
+};
+
+// A wall from z0 to z1 around a loop (material on the left) with set-screw
+// holes through it. The wall is split at the holes' height into a band below
+// and a band above, whose inner edges follow the holes' lower and upper halves.
+const wallWithHoles = (mesh: MeshBuilder, loop: Point2[], z0: number, z1: number, footprints: Footprint[], zMid: number) => {
+  const { starts: loopS, total } = measureLoop(loop);
+  // A hole's span along the loop, measured so that it may wrap past the loop's first point.
+  const wrap = (s: number) => ((s % total) + total) % total;
+  const ranges = footprints.map(({ s }) => {
+    const offsets = s.map(value => wrap(value - s[0] + total / 2) - total / 2);
+    const from = Math.min(...offsets), to = Math.max(...offsets);
+    return [wrap(s[0] + from), to - from];
+  });
+  const inHole = (s: number) => ranges.some(([from, length]) => wrap(s - from + 1e-9) < length + 2e-9);
+
+  // Start the rails at a loop point clear of every hole.
+  const start = loopS.findIndex(s => !inHole(s));
+  const shift = (s: number) => wrap(s - loopS[start]);
+  const order = [...loop.keys()].map(i => (start + i) % loop.length);
+
+  type RailPoint = { key: number; point: Point3 };
+  const at = (i: number, z: number): RailPoint => ({ key: shift(loopS[i]), point: [loop[i][0], loop[i][1], z] });
+  const close = (rail: RailPoint[]) => [...rail, { ...rail[0], key: total }];
+  const bottom = close(order.map(i => at(i, z0)));
+  const top = close(order.map(i => at(i, z1)));
+
+  const middle = order.filter(i => !inHole(loopS[i])).map(i => at(i, zMid));
+  const lower = [...middle], upper = [...middle];
+  for (const { points, s } of footprints) {
+    const half = HOLE_SEGMENTS / 2;
+    const chain = (indices: number[]) => {
+      const chainPoints = indices.map(k => ({ key: shift(s[k]), point: points[k] }));
+      return chainPoints[0].key > chainPoints[chainPoints.length - 1].key ? chainPoints.reverse() : chainPoints;
+    };
+    upper.push(...chain(Array.from({ length: half + 1 }, (_, k) => k)));
+    lower.push(...chain(Array.from({ length: half + 1 }, (_, k) => (half + k) % HOLE_SEGMENTS)));
+  }
+  const sortRail = (rail: RailPoint[]) => close(rail.sort((a, b) => a.key - b.key));
+
+  // Along a wall, key runs where angle does on a cap but up is where out
+  // would be, so the zipped triangles come out clockwise and are flipped.
+  const band = (below: RailPoint[], above: RailPoint[]) => {
+    const points = [...below, ...above].map(({ point }) => point);
+    for (const [p, q, r] of zipChains(below.map(({ key }) => key), above.map(({ key }) => key))) {
+      mesh.triangle(points[p], points[r], points[q]);
+    }
+  };
+  band(bottom, sortRail(lower));
+  band(sortRail(upper), top);
+};
+
+// The bore of a set-screw hole, from where it leaves the bore to where it leaves the hub.
+const holeBore = (mesh: MeshBuilder, inner: Footprint, outer: Footprint, screw: HubLayout['setScrews'][number]) => {
+  const dir: Point3 = [Math.cos(screw.angle), Math.sin(screw.angle), 0];
+  for (let k = 0; k < HOLE_SEGMENTS; k++) {
+    const next = (k + 1) % HOLE_SEGMENTS;
+    const a = inner.points[k], b = inner.points[next], c = outer.points[next], d = outer.points[k];
+    // Face the hole's axis: the normal must oppose the offset of the wall from it.
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [d[0] - a[0], d[1] - a[1], d[2] - a[2]];
+    const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const along = a[0] * dir[0] + a[1] * dir[1];
+    const offset = [a[0] - dir[0] * along, a[1] - dir[1] * along, a[2] - screw.z];
+    if (n[0] * offset[0] + n[1] * offset[1] + n[2] * offset[2] > 0) {
+      mesh.triangle(a, d, c);
+      mesh.triangle(a, c, b);
+    } else {
+      mesh.triangle(a, b, c);
+      mesh.triangle(a, c, d);
+    }
+  }
+};
+
+// A wall of a loop that does not change with z, holed where set screws pass through it.
+const plainWall = (mesh: MeshBuilder, loop: Point2[], z0: number, z1: number, footprints: Footprint[], zMid: number) => {
+  if (z1 - z0 < 1e-9) return;
+  if (footprints.length) wallWithHoles(mesh, loop, z0, z1, footprints, zMid);
+  else wallThrough(mesh, [loop, loop], [z0, z1]);
+};
+
+/**
+ * Sweeps the gear's teeth along `sweep` and builds the hub, web and rim
+ * inside them. The sweep's slices must include ±webThickness/2 when the web
+ * is recessed, so the rim's inner wall can stop there. A flange adds a plain
+ * disc of its thickness to each face, which the hub's layout has to allow for.
+ */
+export const extrudeGearBody = (outline: Point2[], sweep: Sweep, layout: HubLayout, flange: Flange | null = null): Geometry => {
+  const mesh = createMeshBuilder();
+  const { bore, hubRadius, rimRadius, webThickness, hubFront } = layout;
+
+  let slices = sweep.slices;
+  let teeth = slices.map(z => outline.map(p => sweep.at(p, z)));
+  if (flange) {
+    // The flanges' rims are split at the teeth's angles, so the bands from
+    // the teeth out to them at the same height form the flanges' inner faces.
+    const rimOf = (loop: Point2[]) => loop.map(([x, y]): Point2 => {
+      const scale = flange.radius / Math.hypot(x, y);
+      return [x * scale, y * scale];
+    });
+    const first = rimOf(teeth[0]), last = rimOf(teeth[teeth.length - 1]);
+    const toothBack = slices[0], toothFront = slices[slices.length - 1];
+    teeth = [first, first, ...teeth, last, last];
+    slices = [toothBack - flange.thickness, toothBack, ...slices, toothFront, toothFront + flange.thickness];
+  }
+  const back = slices[0], front = slices[slices.length - 1];
+  wallThrough(mesh, teeth, slices);
+
+  // The loop the teeth stand on: the bore, the hub or the rim.
+  const reversed = (loop: Point2[]) => [...loop].reverse();
+  const hubLoop = hubRadius === null ? null : circle(hubRadius);
+  const footing = hubLoop ?? bore;
+  const rimAt = (k: number): Point2[] => {
+    if (rimRadius === null) return footing;
+    // Split the rim's inner circle at the same angles as the teeth so the rim's faces stay quads.
+    const points = teeth[k].map(([x, y]): Point2 => {
+      const angle = Math.atan2(y, x);
+      return [rimRadius * Math.cos(angle), rimRadius * Math.sin(angle)];
+    });
+    return points.filter((p, i) => i === 0 || Math.hypot(p[0] - points[i - 1][0], p[1] - points[i - 1][1]) > 1e-6);
+  };
+
+  capBetween(mesh, rimAt(slices.length - 1), teeth[slices.length - 1], front, true);
+  capBetween(mesh, rimAt(0), teeth[0], back, false);
+
+  // The web's faces are among the slices, so the rim's inner wall can stop at them.
+  const sliceAt = (z: number) => slices.findIndex(h => Math.abs(h - z) < 1e-9);
+  const webFront = rimRadius === null ? slices.length - 1 : sliceAt(webThickness / 2);
+  const webBack = rimRadius === null ? 0 : sliceAt(-webThickness / 2);
+  const webTop = slices[webFront], webBottom = slices[webBack];
+
+  if (rimRadius !== null && hubLoop !== null) {
+    // The rim's inner wall above and below the web, facing the axis.
+    // A flange's slices repeat the heights of the teeth's faces, which the rim skips.
+    const levels = slices.map((_, k) => k).filter(k => k === 0 || slices[k] - slices[k - 1] > 1e-9);
+    const rimWall = (from: number, to: number) => {
+      const ks = levels.filter(k => k >= from && k <= to);
+      wallThrough(mesh, ks.map(k => reversed(rimAt(k))), ks.map(k => slices[k]));
+    };
+    rimWall(webFront, slices.length - 1);
+    rimWall(0, webBack);
+
+    // The web's faces, skirting the cutouts, and the cutouts' walls.
+    const { webInner, webOuter } = layout;
+    capBetween(mesh, hubLoop, webInner, webTop, true);
+    capBetween(mesh, webOuter, rimAt(webFront), webTop, true);
+    capBetween(mesh, hubLoop, webInner, webBottom, false);
+    capBetween(mesh, webOuter, rimAt(webBack), webBottom, false);
+    for (const cutout of layout.cutouts) wallThrough(mesh, [cutout, cutout], [webBottom, webTop]);
+  }
+
+  if (hubLoop !== null) {
+    const screws = layout.setScrews;
+    const boreHoles = screws.map(screw => holeFootprint(reversed(bore), screw));
+    const hubHoles = screws.map(screw => holeFootprint(hubLoop, screw));
+    const screwZ = screws.length ? screws[0].z : 0;
+    capBetween(mesh, bore, hubLoop, hubFront, true);
+    capBetween(mesh, bore, hubLoop, back, false);
+    plainWall(mesh, reversed(bore), back, hubFront, boreHoles, screwZ);
+    // The hub's outer wall, where it stands clear of the web or the face.
+    plainWall(mesh, hubLoop, webTop, hubFront, hubHoles, screwZ);
+    plainWall(mesh, hubLoop, back, webBottom, [], 0);
+    screws.forEach((screw, i) => holeBore(mesh, boreHoles[i], hubHoles[i], screw));
+  } else {
+    wallThrough(mesh, [reversed(bore), reversed(bore)], [back, front]);
+  }
+
+  return mesh.geometry();
+};
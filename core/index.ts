@@ -0,0 +1,26 @@
+// The framework-free gear library: parameters, geometry, analysis and file
+// formats, with no React or DOM dependencies, for the app and for scripts.
+
+export * from './geometry';
+export * from './toothProfile';
+export * from './sprocket';
+export * from './pulley';
+export * from './gearParams';
+export * from './materials';
+export * from './extrude';
+export * from './allowance';
+export * from './hub';
+export * from './gearGeometry';
+export * from './manifold';
+export * from './massProperties';
+export * from './strength';
+export * from './gearPair';
+export * from './gearTrain';
+export * from './planetary';
+export * from './worm';
+export * from './bevel';
+export * from './designRules';
+export * from './gltfExporter';
+export * from './gltfImporter';
+export * from './stlExporter';
+export * from './profileExporter';
@@ -0,0 +1,191 @@
+// Welding and checking triangle meshes. The generators emit every face with
+// its own vertices; welding merges corners that coincide so neighbouring
+// faces share them, and the check counts the defects a slicer would reject.
+
+import { Geometry } from './geometry';
+
+// Corners closer than this, in mm, are the same point.
+const WELD_TOLERANCE = 1e-6;
+// Faces meeting at less than this angle are shaded as one smooth surface;
+// sharper edges keep a crease.
+const SMOOTH_ANGLE = 30 * Math.PI / 180;
+// Triangles with less area than this, in mm², have no usable normal.
+const DEGENERATE_AREA = 1e-10;
+
+type Vec3 = [number, number, number];
+
+const positionKey = (x: number, y: number, z: number) =>
+  `${Math.round(x / WELD_TOLERANCE)},${Math.round(y / WELD_TOLERANCE)},${Math.round(z / WELD_TOLERANCE)}`;
+
+// Each corner's index into a list of distinct positions, and those positions.
+const weldPositions = (geometry: Geometry) => {
+  const { vertices, indices } = geometry;
+  const ids = new Map<string, number>();
+  const positions: Vec3[] = [];
+  const vertexIds = new Map<number, number>();
+  const corners = indices.map(index => {
+    let id = vertexIds.get(index);
+    if (id === undefined) {
+      const x = vertices[index * 3], y = vertices[index * 3 + 1], z = vertices[index * 3 + 2];
+      const key = positionKey(x, y, z);
+      id = ids.get(key);
+      if (id === undefined) {
+        id = positions.length;
+        ids.set(key, id);
+        positions.push([x, y, z]);
+      }
+      vertexIds.set(index, id);
+    }
+    return id;
+  });
+  return { positions, corners };
+};
+
+// Twice the triangle's area, along its normal.
+const faceNormal = (a: Vec3, b: Vec3, c: Vec3): Vec3 => {
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  return [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+};
+
+const normalize = (n: Vec3): Vec3 => {
+  const length = Math.hypot(n[0], n[1], n[2]) || 1;
+  return [n[0] / length, n[1] / length, n[2] / length];
+};
+
+/**
+ * Merges coincident corners into shared vertices, drops triangles that
+ * collapse, and gives each vertex the area-weighted normal of the faces
+ * around it that lie within SMOOTH_ANGLE of each other. A position on a
+ * crease gets one vertex per side of it.
+ */
+export const weldGeometry = (geometry: Geometry): Geometry => {
+  const { positions, corners } = weldPositions(geometry);
+
+  const triangles: number[][] = [];
+  for (let i = 0; i < corners.length; i += 3) {
+    const [a, b, c] = [corners[i], corners[i + 1], corners[i + 2]];
+    if (a !== b && b !== c && c !== a) triangles.push([a, b, c]);
+  }
+  const weighted = triangles.map(([a, b, c]) => faceNormal(positions[a], positions[b], positions[c]));
+  const unit = weighted.map(normalize);
+
+  const around: number[][] = positions.map(() => []);
+  triangles.forEach((triangle, t) => triangle.forEach(p => around[p].push(t)));
+
+  const cosSmooth = Math.cos(SMOOTH_ANGLE);
+  const vertices: number[] = [];
+  const normals: number[] = [];
+  const indices: number[] = [];
+  const vertexIds = new Map<string, number>();
+  triangles.forEach((triangle, t) => {
+    for (const p of triangle) {
+      const n: Vec3 = [0, 0, 0];
+      for (const other of around[p]) {
+        const [x, y, z] = unit[other];
+        if (x * unit[t][0] + y * unit[t][1] + z * unit[t][2] < cosSmooth) continue;
+        n[0] += weighted[other][0];
+        n[1] += weighted[other][1];
+        n[2] += weighted[other][2];
+      }
+      const [nx, ny, nz] = normalize(n);
+      const key = `${p}/${nx.toFixed(4)},${ny.toFixed(4)},${nz.toFixed(4)}`;
+      let id = vertexIds.get(key);
+      if (id === undefined) {
+        id = vertices.length / 3;
+        vertexIds.set(key, id);
+        vertices.push(...positions[p]);
+        normals.push(nx, ny, nz);
+      }
+      indices.push(id);
+    }
+  });
+  return { vertices, normals, indices };
+};
+
+export interface MeshReport {
+  triangles: number;
+  vertices: number; // distinct positions
+  // Edges with only one triangle: holes in the surface.
+  openEdges: number;
+  // Edges with more than two triangles.
+  nonManifoldEdges: number;
+  // Edges whose two triangles run the same way along them, so one is wound backwards.
+  flippedEdges: number;
+  degenerateTriangles: number;
+  // Triangles whose vertex normals point against their winding.
+  invertedNormals: number;
+  // The surface encloses negative volume: every triangle faces inwards.
+  insideOut: boolean;
+}
+
+/** Checks that a mesh is a closed, consistently wound surface that faces outwards. */
+export const validateMesh = (geometry: Geometry): MeshReport => {
+  const { positions, corners } = weldPositions(geometry);
+  const { normals, indices } = geometry;
+
+  // Directed edge "from>to" to the number of triangles running along it.
+  const edges = new Map<string, number>();
+  let degenerateTriangles = 0;
+  let invertedNormals = 0;
+  let volume = 0;
+  for (let i = 0; i < corners.length; i += 3) {
+    const ids = [corners[i], corners[i + 1], corners[i + 2]];
+    const [a, b, c] = ids.map(id => positions[id]);
+    for (let k = 0; k < 3; k++) {
+      const key = `${ids[k]}>${ids[(k + 1) % 3]}`;
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+    }
+
+    const n = faceNormal(a, b, c);
+    if (Math.hypot(n[0], n[1], n[2]) / 2 < DEGENERATE_AREA) {
+      degenerateTriangles++;
+      continue;
+    }
+    volume += (a[0] * (b[1] * c[2] - b[2] * c[1]) + a[1] * (b[2] * c[0] - b[0] * c[2]) + a[2] * (b[0] * c[1] - b[1] * c[0])) / 6;
+    let facing = 0;
+    for (let k = 0; k < 3; k++) {
+      const v = indices[i + k] * 3;
+      facing += normals[v] * n[0] + normals[v + 1] * n[1] + normals[v + 2] * n[2];
+    }
+    if (facing < 0) invertedNormals++;
+  }
+
+  let openEdges = 0, nonManifoldEdges = 0, flippedEdges = 0;
+  const seen = new Set<string>();
+  for (const [key, count] of edges) {
+    const [from, to] = key.split('>');
+    const undirected = from < to ? `${from}-${to}` : `${to}-${from}`;
+    if (seen.has(undirected)) continue;
+    seen.add(undirected);
+    const reverse = edges.get(`${to}>${from}`) ?? 0;
+    const total = count + reverse;
+    if (total === 1) openEdges++;
+    else if (total > 2) nonManifoldEdges++;
+    else if (count !== 1) flippedEdges++;
+  }
+
+  return {
+    triangles: indices.length / 3,
+    vertices: positions.length,
+    openEdges,
+    nonManifoldEdges,
+    flippedEdges,
+    degenerateTriangles,
+    invertedNormals,
+    insideOut: volume < 0,
+  };
+};
+
+/** The report's defects in words, or an empty list for a clean mesh. */
+export const describeMeshProblems = (report: MeshReport): string[] => {
+  const counted = (count: number, what: string) => (count > 0 ? [`${count} ${what}${count === 1 ? '' : 's'}`] : []);
+  return [
+    ...counted(report.openEdges, 'open edge'),
+    ...counted(report.nonManifoldEdges, 'non-manifold edge'),
+    ...counted(report.flippedEdges, 'edge with mismatched winding'),
+    ...counted(report.degenerateTriangles, 'degenerate triangle'),
+    ...counted(report.invertedNormals, 'triangle with inverted normals'),
+    ...(report.insideOut ? ['faces point inwards'] : []),
+  ];
+};
@@ -0,0 +1,62 @@
+// Mass properties of a closed triangle mesh. Each triangle and the origin
+// bound a signed tetrahedron; summing their volumes and moments over the
+// surface integrates over the solid (the divergence theorem), so the mesh
+// must be watertight with outward-facing triangles.
+
+import { Geometry } from './geometry';
+
+export interface MassProperties {
+  volume: number; // mm³
+  surfaceArea: number; // mm²
+  centroid: [number, number, number]; // mm
+  mass: number; // g
+  // About the mesh's z axis, which is the gear axis.
+  polarMoment: number; // g·mm²
+}
+
+// g/cm³ to g/mm³.
+const CM3_PER_MM3 = 0.001;
+
+// Over a tetrahedron with one corner at the origin and the others at a, b and c,
+// ∫x² dV = V/10 · (a² + b² + c² + ab + bc + ca), taking x from each corner.
+const secondMomentSum = (a: number, b: number, c: number) => a * a + b * b + c * c + a * b + b * c + c * a;
+
+/** Mass properties of the solid bounded by the mesh, with density in g/cm³. */
+export const computeMassProperties = (geometry: Geometry, density: number): MassProperties => {
+  const { vertices, indices } = geometry;
+  let volume = 0;
+  let surfaceArea = 0;
+  const moment = [0, 0, 0];
+  // ∫x² dV + ∫y² dV
+  let radialSecondMoment = 0;
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const a = indices[i] * 3, b = indices[i + 1] * 3, c = indices[i + 2] * 3;
+    const ax = vertices[a], ay = vertices[a + 1], az = vertices[a + 2];
+    const bx = vertices[b], by = vertices[b + 1], bz = vertices[b + 2];
+    const cx = vertices[c], cy = vertices[c + 1], cz = vertices[c + 2];
+
+    // b × c, dotted with a, is six times the tetrahedron's signed volume.
+    const crossX = by * cz - bz * cy, crossY = bz * cx - bx * cz, crossZ = bx * cy - by * cx;
+    const tetVolume = (ax * crossX + ay * crossY + az * crossZ) / 6;
+    volume += tetVolume;
+    moment[0] += tetVolume * (ax + bx + cx) / 4;
+    moment[1] += tetVolume * (ay + by + cy) / 4;
+    moment[2] += tetVolume * (az + bz + cz) / 4;
+
+    radialSecondMoment += tetVolume / 10 * (secondMomentSum(ax, bx, cx) + secondMomentSum(ay, by, cy));
+
+    const ux = bx - ax, uy = by - ay, uz = bz - az;
+    const vx = cx - ax, vy = cy - ay, vz = cz - az;
+    surfaceArea += Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx) / 2;
+  }
+
+  const gramsPerMm3 = density * CM3_PER_MM3;
+  return {
+    volume,
+    surfaceArea,
+    centroid: volume ? [moment[0] / volume, moment[1] / volume, moment[2] / volume] : [0, 0, 0],
+    mass: volume * gramsPerMm3,
+    polarMoment: radialSecondMoment * gramsPerMm3,
+  };
+};
@@ -0,0 +1,33 @@
+// Material presets a gear can be made from. The viewer shades with them, the
+// exporters record them and their densities give the part's mass. Colours are
+// sRGB as drawn on screen; metallic and roughness follow glTF's model.
+
+import { Color } from './geometry';
+
+export const MATERIALS = [
+  'steel', 'brass', 'aluminium', 'nylon', 'pla-white', 'pla-black', 'pla-red', 'pla-blue', 'pla-orange',
+] as const;
+export type MaterialId = typeof MATERIALS[number];
+
+export interface Material {
+  name: string;
+  color: Color;
+  metallic: number; // 0 for dielectrics, 1 for bare metal
+  roughness: number; // 0 is a mirror finish
+  density: number; // g/cm³
+}
+
+export const MATERIAL_PRESETS: Record<MaterialId, Material> = {
+  steel: { name: 'Steel', color: [0.62, 0.63, 0.65], metallic: 1, roughness: 0.4, density: 7.85 },
+  brass: { name: 'Brass', color: [0.88, 0.72, 0.42], metallic: 1, roughness: 0.35, density: 8.5 },
+  aluminium: { name: 'Aluminium', color: [0.89, 0.9, 0.91], metallic: 1, roughness: 0.3, density: 2.7 },
+  nylon: { name: 'Nylon', color: [0.93, 0.91, 0.84], metallic: 0, roughness: 0.6, density: 1.14 },
+  'pla-white': { name: 'PLA (white)', color: [0.94, 0.94, 0.92], metallic: 0, roughness: 0.5, density: 1.24 },
+  'pla-black': { name: 'PLA (black)', color: [0.14, 0.14, 0.15], metallic: 0, roughness: 0.5, density: 1.24 },
+  'pla-red': { name: 'PLA (red)', color: [0.8, 0.16, 0.13], metallic: 0, roughness: 0.5, density: 1.24 },
+  'pla-blue': { name: 'PLA (blue)', color: [0.16, 0.36, 0.75], metallic: 0, roughness: 0.5, density: 1.24 },
+  'pla-orange': { name: 'PLA (orange)', color: [0.95, 0.5, 0.12], metallic: 0, roughness: 0.5, density: 1.24 },
+};
+
+// The planetary carrier is not configured, so it is always drawn in this.
+export const CARRIER_MATERIAL: MaterialId = 'aluminium';
@@ -0,0 +1,144 @@
+// Planetary gearsets: a sun gear at the centre, equally spaced planets on a
+// carrier around it and an internal ring gear enclosing them. The ring is
+// held, the sun drives and the carrier is the output.
+
+import { GearParams } from './gearParams';
+import { getMatePhase } from './gearPair';
+import { Point2, getToothRadii } from './toothProfile';
+
+export interface PlanetaryParams {
+  sunTeeth: number;
+  ringTeeth: number;
+  planetCount: number;
+}
+
+export const DEFAULT_PLANETARY_PARAMS: PlanetaryParams = {
+  sunTeeth: 20,
+  ringTeeth: 70,
+  planetCount: 3,
+};
+
+/** A gear of the set, posed at rest. */
+export interface PlanetaryMember {
+  name: string;
+  params: GearParams;
+  position: [number, number, number];
+  phase: number;
+  speed: number; // turns about its own axis per turn of the sun
+  orbit: number; // turns of its position about the sun's axis per turn of the sun
+}
+
+/** The carrier: a plate behind the gears with a pin through each planet. */
+export interface CarrierSpec {
+  plateRadius: number;
+  boreRadius: number;
+  thickness: number;
+  pinRadius: number;
+  pinLength: number;
+  pins: Point2[];
+  z: number; // centre of the plate
+}
+
+export interface PlanetaryAnalysis {
+  members: PlanetaryMember[];
+  carrier: CarrierSpec;
+  planetTeeth: number;
+  centerDistance: number; // sun to planet
+  ratio: number; // sun turns per carrier turn
+  carrierSpeed: number;
+  planetClearance: number; // between the tip circles of neighbouring planets
+  warnings: string[];
+}
+
+// Axial gap between the gears and the carrier plate, in mm.
+const CARRIER_GAP = 1;
+
+/**
+ * Places the gears of a planetary set cut with the tooth system of `base`.
+ * Every gear is unshifted, so one centre distance serves both the sun and
+ * the ring mesh, and the planets take the hand opposite the sun's, as does
+ * the ring that meshes with them.
+ */
+export const analyzePlanetary = (base: GearParams, params: PlanetaryParams): PlanetaryAnalysis => {
+  const warnings: string[] = [];
+  const zs = Math.round(params.sunTeeth), zr = Math.round(params.ringTeeth);
+  const count = Math.round(params.planetCount);
+
+  // The planets bridge the gap between sun and ring.
+  if ((zr - zs) % 2 !== 0) {
+    warnings.push('Ring and sun tooth counts must both be odd or both be even to fit unshifted planets.');
+  }
+  const zp = Math.max(3, Math.floor((zr - zs) / 2));
+  if (zr - zs < 6) {
+    warnings.push('The ring needs at least 6 more teeth than the sun to leave room for planets.');
+  }
+  // Equally spaced planets only all mesh if each spacing is a whole number of teeth on both sun and ring.
+  if ((zs + zr) % count !== 0) {
+    warnings.push(`Sun + ring teeth (${zs + zr}) must be divisible by the planet count (${count}) to space the planets evenly.`);
+  }
+
+  const sun: GearParams = { ...base, gearType: 'external', teeth: zs, profileShift: 0 };
+  const planetRoot = getToothRadii({ ...sun, teeth: zp }).rootRadius;
+  const planet: GearParams = {
+    ...sun,
+    teeth: zp,
+    helixAngle: -base.helixAngle,
+    innerRadius: Math.min(base.innerRadius, planetRoot * 0.5),
+  };
+  const ring: GearParams = { ...planet, gearType: 'internal', teeth: zr };
+
+  const centerDistance = base.module * (zs + zp) / 2;
+  const planetTip = getToothRadii(planet).tipRadius;
+  const planetClearance = 2 * centerDistance * Math.sin(Math.PI / count) - 2 * planetTip;
+  if (planetClearance <= 0) {
+    warnings.push('Neighbouring planets overlap; use fewer planets or a larger sun.');
+  }
+
+  // With the ring held, the carrier turns once for every 1 + Zr/Zs turns of the
+  // sun, and each planet spins backwards relative to it.
+  const carrierSpeed = zs / (zs + zr);
+  const planetSpeed = carrierSpeed * (1 - zr / zp);
+
+  const members: PlanetaryMember[] = [
+    { name: 'Sun', params: sun, position: [0, 0, 0], phase: 0, speed: 1, orbit: 0 },
+  ];
+  let ringPhase = 0;
+  for (let i = 0; i < count; i++) {
+    const lineAngle = 2 * Math.PI * i / count;
+    const phase = getMatePhase(zs, zp, 0, lineAngle);
+    // The ring's space has to face the first planet's tooth on the far side of it.
+    if (i === 0) ringPhase = lineAngle + (phase - lineAngle) * zp / zr;
+    members.push({
+      name: `Planet ${i + 1}`,
+      params: planet,
+      position: [centerDistance * Math.cos(lineAngle), centerDistance * Math.sin(lineAngle), 0],
+      phase,
+      speed: planetSpeed,
+      orbit: carrierSpeed,
+    });
+  }
+  members.push({ name: 'Ring', params: ring, position: [0, 0, 0], phase: ringPhase, speed: 0, orbit: 0 });
+
+  const thickness = Math.max(2, base.width / 2);
+  const pinRadius = planet.innerRadius;
+  const carrier: CarrierSpec = {
+    plateRadius: centerDistance + 2 * pinRadius,
+    boreRadius: sun.innerRadius,
+    thickness,
+    pinRadius,
+    pinLength: CARRIER_GAP + base.width,
+    pins: members.filter(m => m.orbit !== 0).map(m => [m.position[0], m.position[1]]),
+    z: -(base.width / 2 + CARRIER_GAP + thickness / 2),
+  };
+
+  return {
+    members,
+    carrier,
+    planetTeeth: zp,
+    centerDistance,
+    ratio: 1 / carrierSpeed,
+    carrierSpeed,
+    planetClearance,
+    warnings,
+  };
+};
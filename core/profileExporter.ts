@@ -0,0 +1,146 @@
+// Dependency-free functions to export flat part outlines as DXF or SVG for
+// laser cutting and CNC routing. Outer contours and holes go on separate
+// layers so the cutting order can be set per layer.
+
+import { Profile2D } from './extrude';
+import { ExportedFile } from './gltfExporter';
+import { LengthUnit, UNIT_SCALE } from './gearParams';
+import { Point2 } from './toothProfile';
+
+export interface ProfileNode {
+  name: string;
+  profile: Profile2D;
+  // A line of text recorded with the part, e.g. the fit allowances it was cut with.
+  notes?: string;
+}
+
+// Space left between neighbouring parts on the sheet, in mm.
+const PART_GAP = 5;
+
+interface LaidOutPart {
+  name: string;
+  outer: Point2[];
+  holes: Point2[][];
+  notes?: string;
+}
+
+// Parts are cut flat, so they are laid out in a row along x instead of where
+// they sit in the assembly, and scaled into the chosen unit.
+const layOut = (nodes: ProfileNode[], scale: number): LaidOutPart[] => {
+  let cursor = 0;
+  return nodes.map(({ name, profile, notes }) => {
+    const xs = profile.outer.map(p => p[0]);
+    const ys = profile.outer.map(p => p[1]);
+    const dx = cursor - Math.min(...xs);
+    const dy = -(Math.min(...ys) + Math.max(...ys)) / 2;
+    cursor += Math.max(...xs) - Math.min(...xs) + PART_GAP;
+    const place = (points: Point2[]) => points.map(([x, y]): Point2 => [(x + dx) * scale, (y + dy) * scale]);
+    return { name, outer: place(profile.outer), holes: profile.holes.map(place), notes };
+  });
+};
+
+const bounds = (parts: LaidOutPart[]) => {
+  const points = parts.flatMap(part => part.outer);
+  return {
+    minX: Math.min(...points.map(p => p[0])),
+    minY: Math.min(...points.map(p => p[1])),
+    maxX: Math.max(...points.map(p => p[0])),
+    maxY: Math.max(...points.map(p => p[1])),
+  };
+};
+
+const format = (v: number) => Number(v.toFixed(5)).toString();
+
+// DXF $INSUNITS codes.
+const DXF_UNITS: Record<LengthUnit, number> = { mm: 4, inch: 1 };
+
+const DXF_LAYERS = [
+  { name: 'PROFILE', color: 7 },
+  { name: 'HOLES', color: 1 },
+];
+
+/**
+ * Writes an R12-style DXF (header, layer table and entities) with one closed
+ * LWPOLYLINE per contour. The subclass markers let newer readers accept the
+ * polylines while older ones skip them as unknown codes.
+ */
+export const exportDXF = (nodes: ProfileNode[], unit: LengthUnit): ExportedFile => {
+  const parts = layOut(nodes, UNIT_SCALE[unit]);
+  const codes: (string | number)[] = [];
+  const group = (code: number, value: string | number) => codes.push(code, value);
+
+  // Comments (group 999) at the top of the file carry each part's notes.
+  for (const { name, notes } of parts) {
+    if (notes) group(999, `${name}: ${notes}`);
+  }
+
+  group(0, 'SECTION'); group(2, 'HEADER');
+  group(9, '$INSUNITS'); group(70, DXF_UNITS[unit]);
+  group(0, 'ENDSEC');
+
+  group(0, 'SECTION'); group(2, 'TABLES');
+  group(0, 'TABLE'); group(2, 'LAYER'); group(70, DXF_LAYERS.length);
+  for (const { name, color } of DXF_LAYERS) {
+    group(0, 'LAYER'); group(2, name); group(70, 0); group(62, color); group(6, 'CONTINUOUS');
+  }
+  group(0, 'ENDTAB');
+  group(0, 'ENDSEC');
+
+  const polyline = (points: Point2[], layer: string) => {
+    group(0, 'LWPOLYLINE');
+    group(100, 'AcDbEntity');
+    group(8, layer);
+    group(100, 'AcDbPolyline');
+    group(90, points.length);
+    group(70, 1); // closed
+    for (const [x, y] of points) {
+      group(10, format(x));
+      group(20, format(y));
+    }
+  };
+
+  group(0, 'SECTION'); group(2, 'ENTITIES');
+  for (const { outer, holes } of parts) {
+    polyline(outer, 'PROFILE');
+    holes.forEach(hole => polyline(hole, 'HOLES'));
+  }
+  group(0, 'ENDSEC');
+  group(0, 'EOF');
+
+  return { data: codes.join('\n') + '\n', mimeType: 'application/dxf' };
+};
+
+const SVG_UNITS: Record<LengthUnit, string> = { mm: 'mm', inch: 'in' };
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** Writes an SVG sized in real units, with outer contours and holes in separate groups. */
+export const exportSVG = (nodes: ProfileNode[], unit: LengthUnit): ExportedFile => {
+  const scale = UNIT_SCALE[unit];
+  const parts = layOut(nodes, scale);
+  const { minX, minY, maxX, maxY } = bounds(parts);
+  const margin = PART_GAP * scale;
+  const width = maxX - minX + 2 * margin, height = maxY - minY + 2 * margin;
+
+  // SVG's y axis points down, so y is negated to keep the parts the right way round.
+  const path = (points: Point2[]) =>
+    `M${points.map(([x, y]) => `${format(x)} ${format(-y)}`).join(' L')} Z`;
+  const paths = (id: string, contours: { name: string; points: Point2[] }[], stroke: string) => [
+    `  <g id="${id}" fill="none" stroke="${stroke}" stroke-width="${format(0.1 * scale)}">`,
+    ...contours.map(({ name, points }) => `    <path data-part="${name}" d="${path(points)}"/>`),
+    '  </g>',
+  ];
+
+  const notes = parts.flatMap(({ name, notes }) => (notes ? [`${name}: ${notes}`] : []));
+  const u = SVG_UNITS[unit];
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${format(width)}${u}" height="${format(height)}${u}" viewBox="${format(minX - margin)} ${format(-maxY - margin)} ${format(width)} ${format(height)}">`,
+    ...(notes.length ? [`  <desc>${escapeXml(notes.join('\n'))}</desc>`] : []),
+    ...paths('profile', parts.map(({ name, outer }) => ({ name, points: outer })), '#000000'),
+    ...paths('holes', parts.flatMap(({ name, holes }) => holes.map(points => ({ name, points }))), '#ff0000'),
+    '</svg>',
+    '',
+  ];
+  return { data: lines.join('\n'), mimeType: 'image/svg+xml' };
+};
@@ -0,0 +1,127 @@
+// Timing belt pulleys. The belt's teeth sit in grooves cut round the rim,
+// and its tension cords run on the pitch circle, which lies outside the
+// pulley by the pitch line differential.
+
+import { Point2, ToothRadii, wrapTeeth } from './toothProfile';
+
+export const BELT_TYPES = ['gt2', 'htd3m', 'htd5m', 't5'] as const;
+export type BeltType = typeof BELT_TYPES[number];
+
+export interface BeltProfile {
+  name: string;
+  pitch: number;
+  pitchLineOffset: number; // from the pulley's outside diameter out to the belt's pitch line
+  grooveDepth: number;
+  grooveWidth: number; // across the groove's mouth, fillets included
+  grooveShape: 'round' | 'trapezoid';
+  filletRadius: number; // rounds the groove's mouth into the lands
+  minGrooves: number; // the smallest pulley the belt bends round without cracking
+  flangeHeight: number; // above the outside diameter
+  flangeThickness: number;
+}
+
+// Groove sizes follow the common pulley tables, in mm.
+export const BELT_PROFILES: Record<BeltType, BeltProfile> = {
+  gt2: {
+    name: 'GT2 2 mm', pitch: 2, pitchLineOffset: 0.254, grooveDepth: 0.764, grooveWidth: 1.494,
+    grooveShape: 'round', filletRadius: 0.15, minGrooves: 12, flangeHeight: 1.5, flangeThickness: 1,
+  },
+  htd3m: {
+    name: 'HTD 3M', pitch: 3, pitchLineOffset: 0.381, grooveDepth: 1.289, grooveWidth: 2.27,
+    grooveShape: 'round', filletRadius: 0.25, minGrooves: 10, flangeHeight: 2, flangeThickness: 1.5,
+  },
+  htd5m: {
+    name: 'HTD 5M', pitch: 5, pitchLineOffset: 0.5715, grooveDepth: 2.199, grooveWidth: 3.781,
+    grooveShape: 'round', filletRadius: 0.4, minGrooves: 14, flangeHeight: 3, flangeThickness: 1.5,
+  },
+  t5: {
+    name: 'T5', pitch: 5, pitchLineOffset: 0.5, grooveDepth: 1.19, grooveWidth: 3.264,
+    grooveShape: 'trapezoid', filletRadius: 0, minGrooves: 10, flangeHeight: 2.5, flangeThickness: 1.5,
+  },
+};
+
+// A trapezoidal groove's flanks lean out from the radial by half its 50° included angle.
+const TRAPEZOID_FLANK = 25 * Math.PI / 180;
+
+// Sample counts per side of a groove.
+const GROOVE_SAMPLES = 6;
+const FILLET_SAMPLES = 3;
+
+/** The belt a pulley carries, how many grooves it has, and whether flanges keep the belt on. */
+export interface PulleySpec {
+  teeth: number;
+  beltType: BeltType;
+  flanges: boolean;
+}
+
+/** The flanges either side of the grooves: their radius and how thick each is. */
+export interface Flange {
+  radius: number;
+  thickness: number;
+}
+
+/**
+ * Pitch, tip and root radii. The tips are the lands on the outside diameter
+ * and the roots the bottoms of the grooves. A pulley has no base circle, so
+ * its pitch radius stands in for one.
+ */
+export const getPulleyRadii = (spec: PulleySpec): ToothRadii => {
+  const belt = BELT_PROFILES[spec.beltType];
+  const pitchRadius = spec.teeth * belt.pitch / (2 * Math.PI);
+  const tipRadius = pitchRadius - belt.pitchLineOffset;
+  return { pitchRadius, baseRadius: pitchRadius, tipRadius, rootRadius: tipRadius - belt.grooveDepth };
+};
+
+// One side of a groove as [along, depth] pairs from the middle of its
+// bottom to its mouth, measured along and into the outside diameter.
+const halfGroove = (belt: BeltProfile): [number, number][] => {
+  const { grooveDepth: depth, grooveWidth: width, filletRadius: fillet } = belt;
+  if (belt.grooveShape === 'trapezoid') {
+    return [[0, depth], [width / 2 - depth * Math.tan(TRAPEZOID_FLANK), depth], [width / 2, 0]];
+  }
+  // A circular bottom whose radius puts the fillets' far ends at the mouth's width.
+  const filletAlong = width / 2;
+  let radius = (width * width / (4 * depth) + depth) / 2 - fillet;
+  // Where that bottom would meet the fillets below their centres it undercuts
+  // the groove; a smaller bottom then runs into them down straight walls.
+  if (depth - radius > fillet) radius = filletAlong - fillet;
+  const centerDepth = depth - radius;
+  const tangent = Math.max(0, Math.atan2(fillet - centerDepth, filletAlong));
+  const bottom = Array.from({ length: GROOVE_SAMPLES + 1 }, (_, i): [number, number] => {
+    const angle = Math.PI / 2 + (tangent - Math.PI / 2) * i / GROOVE_SAMPLES;
+    return [radius * Math.cos(angle), centerDepth + radius * Math.sin(angle)];
+  });
+  const wall: [number, number][] = centerDepth > fillet ? [[filletAlong - fillet, fillet]] : [];
+  const mouth = Array.from({ length: FILLET_SAMPLES }, (_, i): [number, number] => {
+    const angle = tangent + Math.PI + (Math.PI / 2 - tangent) * (i + 1) / FILLET_SAMPLES;
+    return [filletAlong + fillet * Math.cos(angle), fillet + fillet * Math.sin(angle)];
+  });
+  return [...bottom, ...wall, ...mouth];
+};
+
+/**
+ * Outline of a pulley with a land centred on +x and grooves between the
+ * lands. Where the grooves are wider than the pitch leaves room for, the
+ * lands come to a point.
+ */
+export const createPulleyOutline = (spec: PulleySpec): Point2[] => {
+  const belt = BELT_PROFILES[spec.beltType];
+  const { tipRadius } = getPulleyRadii(spec);
+  const side = halfGroove(belt).map(([along, depth]): [number, number] =>
+    [tipRadius - depth, Math.PI / spec.teeth - along / tipRadius]);
+
+  // Cut the side off where it crosses the land's centreline.
+  const cross = side.findIndex(([, angle]) => angle <= 0);
+  if (cross > 0) {
+    const [r0, a0] = side[cross - 1], [r1, a1] = side[cross];
+    side.splice(cross, side.length - cross, [r0 + (r1 - r0) * a0 / (a0 - a1), 0]);
+  }
+  return wrapTeeth(side, spec.teeth);
+};
+
+/** The pulley's flanges, or null when it has none. */
+export const getPulleyFlange = (spec: PulleySpec): Flange | null => {
+  if (!spec.flanges) return null;
+  const belt = BELT_PROFILES[spec.beltType];
+  return { radius: getPulleyRadii(spec).tipRadius + belt.flangeHeight, thickness: belt.flangeThickness };
+};
@@ -0,0 +1,106 @@
+// Roller-chain sprockets. The teeth follow the ISO 606 minimum tooth space,
+// which ANSI B29.1 chains of the same pitch run on too: each roller rests in
+// a seating arc a little wider than itself, and the flanks are long arcs
+// tangent to the seats that the rollers climb as they leave.
+
+import { Point2, ToothRadii, wrapTeeth } from './toothProfile';
+
+export interface ChainSize {
+  name: string;
+  pitch: number;
+  rollerDiameter: number;
+}
+
+// Common simplex chains, in mm. ANSI 25 and 35 are bushing chains; their bushings stand in for rollers.
+export const CHAIN_SIZES: ChainSize[] = [
+  { name: 'ANSI 25', pitch: 6.35, rollerDiameter: 3.3 },
+  { name: 'ANSI 35', pitch: 9.525, rollerDiameter: 5.08 },
+  { name: 'ANSI 40', pitch: 12.7, rollerDiameter: 7.92 },
+  { name: 'ANSI 50', pitch: 15.875, rollerDiameter: 10.16 },
+  { name: 'ANSI 60', pitch: 19.05, rollerDiameter: 11.91 },
+  { name: 'ANSI 80', pitch: 25.4, rollerDiameter: 15.88 },
+  { name: 'ISO 05B', pitch: 8, rollerDiameter: 5 },
+  { name: 'ISO 06B', pitch: 9.525, rollerDiameter: 6.35 },
+  { name: 'ISO 08B', pitch: 12.7, rollerDiameter: 8.51 },
+  { name: 'ISO 10B', pitch: 15.875, rollerDiameter: 10.16 },
+  { name: 'ISO 12B', pitch: 19.05, rollerDiameter: 12.07 },
+  { name: 'ISO 16B', pitch: 25.4, rollerDiameter: 15.88 },
+];
+
+/** The chain a sprocket carries and how many teeth it has. */
+export interface SprocketSpec {
+  teeth: number;
+  chainPitch: number;
+  rollerDiameter: number;
+}
+
+// Sample counts per side of a tooth.
+const SEAT_SAMPLES = 4;
+const FLANK_SAMPLES = 6;
+
+// Radius of the arc each roller rests in.
+const seatRadius = (rollerDiameter: number) => 0.505 * rollerDiameter + 0.069 * Math.cbrt(rollerDiameter);
+
+/**
+ * Pitch, tip and root radii. The rollers' centres lie on the pitch circle and
+ * the roots at the bottom of their seats. The tip circle is midway between
+ * the largest and smallest the standard allows. A sprocket has no base
+ * circle, so its pitch radius stands in for one.
+ */
+export const getSprocketRadii = (spec: SprocketSpec): ToothRadii => {
+  const { teeth: z, chainPitch: p, rollerDiameter: d1 } = spec;
+  const pitchDiameter = p / Math.sin(Math.PI / z);
+  const maxTip = pitchDiameter + 1.25 * p - d1;
+  const minTip = pitchDiameter + p * (1 - 1.6 / z) - d1;
+  return {
+    pitchRadius: pitchDiameter / 2,
+    baseRadius: pitchDiameter / 2,
+    tipRadius: (maxTip + minTip) / 4,
+    rootRadius: pitchDiameter / 2 - seatRadius(d1),
+  };
+};
+
+/**
+ * Outline of a sprocket with a tooth centred on +x and rollers seated
+ * between the teeth. Each side of a tooth runs up from the bottom of a seat,
+ * round the seating arc and along the flank arc to the tip circle, or to the
+ * tooth's centreline if the flanks meet first.
+ */
+export const createSprocketOutline = (spec: SprocketSpec): Point2[] => {
+  const { teeth: z, rollerDiameter: d1 } = spec;
+  const { pitchRadius, tipRadius } = getSprocketRadii(spec);
+  const seat = seatRadius(d1);
+  const flankRadius = 0.008 * d1 * (z * z + 180);
+  // Half the seating angle of 140° − 90°/z.
+  const halfSeat = (70 - 45 / z) * Math.PI / 180;
+
+  // The roller below tooth 0, at −π/z. Directions from its centre are
+  // measured from straight towards the axis round towards the tooth.
+  const [c, s] = [Math.cos(Math.PI / z), Math.sin(Math.PI / z)];
+  const roller: Point2 = [pitchRadius * c, -pitchRadius * s];
+  const towards = (psi: number): Point2 => [-c * Math.cos(psi) + s * Math.sin(psi), s * Math.cos(psi) + c * Math.sin(psi)];
+  const seatAt = (psi: number): Point2 => {
+    const [x, y] = towards(psi);
+    return [roller[0] + seat * x, roller[1] + seat * y];
+  };
+
+  // The flank arc is tangent to the seat where the seat ends, and curves the other way.
+  const [ux, uy] = towards(halfSeat);
+  const flankCenter: Point2 = [roller[0] + (seat + flankRadius) * ux, roller[1] + (seat + flankRadius) * uy];
+  const flankAt = (t: number): Point2 => {
+    const [x, y] = towards(halfSeat - t);
+    return [flankCenter[0] - flankRadius * x, flankCenter[1] - flankRadius * y];
+  };
+  const past = ([x, y]: Point2) => Math.hypot(x, y) >= tipRadius || y >= 0;
+  let lo = 0, hi = halfSeat;
+  for (let i = 0; i < 48; i++) {
+    const mid = (lo + hi) / 2;
+    if (past(flankAt(mid))) hi = mid; else lo = mid;
+  }
+
+  const side = [
+    ...Array.from({ length: SEAT_SAMPLES + 1 }, (_, i) => seatAt(halfSeat * i / SEAT_SAMPLES)),
+    ...Array.from({ length: FLANK_SAMPLES }, (_, i) => flankAt(hi * (i + 1) / FLANK_SAMPLES)),
+  ];
+  return wrapTeeth(side.map(([x, y]): [number, number] => [Math.hypot(x, y), Math.max(0, -Math.atan2(y, x))]), z);
+};
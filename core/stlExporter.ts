@@ -0,0 +1,105 @@
+// Dependency-free functions to export geometry to binary or ASCII STL files.
+// STL has no scene graph, so every node is posed and merged into one solid.
+
+import { ExportNode, ExportedFile } from './gltfExporter';
+import { LengthUnit, UNIT_SCALE } from './gearParams';
+import { Tilt } from './geometry';
+
+export type StlFormat = 'binary' | 'ascii';
+
+interface Facet {
+  normal: number[];
+  corners: number[][];
+}
+
+// Rodrigues' rotation of v about the tilt's axis.
+const tilted = (v: number[], tilt?: Tilt): number[] => {
+  if (!tilt) return v;
+  const [kx, ky, kz] = tilt.axis;
+  const c = Math.cos(tilt.angle), s = Math.sin(tilt.angle);
+  const dot = (kx * v[0] + ky * v[1] + kz * v[2]) * (1 - c);
+  return [
+    v[0] * c + (ky * v[2] - kz * v[1]) * s + kx * dot,
+    v[1] * c + (kz * v[0] - kx * v[2]) * s + ky * dot,
+    v[2] * c + (kx * v[1] - ky * v[0]) * s + kz * dot,
+  ];
+};
+
+// Poses every triangle of every node and gives it the normal of its own plane,
+// since STL readers expect flat per-face normals that agree with the winding.
+const collectFacets = (nodes: ExportNode[], scale: number): Facet[] => {
+  const facets: Facet[] = [];
+  for (const { geometry, translation = [0, 0, 0], angle = 0, tilt } of nodes) {
+    const c = Math.cos(angle), s = Math.sin(angle);
+    const corner = (index: number) => {
+      const x = geometry.vertices[index * 3], y = geometry.vertices[index * 3 + 1], z = geometry.vertices[index * 3 + 2];
+      const [tx, ty, tz] = tilted([x * c - y * s, x * s + y * c, z], tilt);
+      return [(tx + translation[0]) * scale, (ty + translation[1]) * scale, (tz + translation[2]) * scale];
+    };
+    for (let i = 0; i < geometry.indices.length; i += 3) {
+      const corners = [corner(geometry.indices[i]), corner(geometry.indices[i + 1]), corner(geometry.indices[i + 2])];
+      const u = corners[1].map((v, j) => v - corners[0][j]);
+      const w = corners[2].map((v, j) => v - corners[0][j]);
+      const n = [u[1] * w[2] - u[2] * w[1], u[2] * w[0] - u[0] * w[2], u[0] * w[1] - u[1] * w[0]];
+      const length = Math.hypot(n[0], n[1], n[2]) || 1;
+      facets.push({ normal: n.map(v => v / length), corners });
+    }
+  }
+  return facets;
+};
+
+const exportBinarySTL = (facets: Facet[], unit: LengthUnit, materials: string[], notes: string[]): ExportedFile => {
+  // 80-byte header, facet count, then 50 bytes per facet.
+  const buffer = new ArrayBuffer(84 + facets.length * 50);
+  const view = new DataView(buffer);
+
+  // The header is free text; it is the only place a binary STL can record its
+  // units, material and notes, and it is cut off at 80 bytes.
+  const description = (materials.length ? `, material: ${materials.join(', ')}` : '') + (notes.length ? `; ${notes.join('; ')}` : '');
+  const header = new TextEncoder().encode(`Gear model, units: ${unit}${description}`).slice(0, 80);
+  new Uint8Array(buffer).set(header, 0);
+  view.setUint32(80, facets.length, true);
+
+  let offset = 84;
+  for (const { normal, corners } of facets) {
+    for (const v of [normal, ...corners]) {
+      for (let j = 0; j < 3; j++) {
+        view.setFloat32(offset, v[j], true);
+        offset += 4;
+      }
+    }
+    view.setUint16(offset, 0, true); // attribute byte count
+    offset += 2;
+  }
+
+  return { data: buffer, mimeType: 'model/stl' };
+};
+
+const exportAsciiSTL = (facets: Facet[], name: string, notes: string[]): ExportedFile => {
+  const format = (v: number[]) => v.map(c => c.toExponential(6)).join(' ');
+  // Readers take the rest of the solid line as its name, which leaves room for the notes.
+  const title = notes.length ? `${name} (${notes.join('; ')})` : name;
+  const lines = [`solid ${title}`];
+  for (const { normal, corners } of facets) {
+    lines.push(
+      `  facet normal ${format(normal)}`,
+      '    outer loop',
+      ...corners.map(v => `      vertex ${format(v)}`),
+      '    endloop',
+      '  endfacet',
+    );
+  }
+  lines.push(`endsolid ${title}`, '');
+  return { data: lines.join('\n'), mimeType: 'model/stl' };
+};
+
+/** Writes the nodes, posed as they are in the scene, as a single STL solid. */
+export const exportSceneSTL = (nodes: ExportNode[], format: StlFormat, unit: LengthUnit, name = 'gear'): ExportedFile => {
+  const facets = collectFacets(nodes, UNIT_SCALE[unit]);
+  const materials = [...new Set(nodes.flatMap(({ material }) => (material ? [material.name] : [])))];
+  const notes = [...new Set(nodes.flatMap(({ notes }) => (notes ? [notes] : [])))];
+  return format === 'binary' ? exportBinarySTL(facets, unit, materials, notes) : exportAsciiSTL(facets, name, notes);
+};
+
+export const exportSTL = (geometry: ExportNode['geometry'], format: StlFormat, unit: LengthUnit): ExportedFile =>
+  exportSceneSTL([{ name: 'Gear', geometry }], format, unit);
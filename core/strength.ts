@@ -0,0 +1,153 @@
+// Load rating for the configured gear: Lewis bending stress at the tooth root
+// and a Hertzian contact (pitting) stress in the AGMA/ISO form, each compared
+// with an allowable stress for the gear's material. These are first-pass
+// sizing numbers with no load, life or reliability factors, not a rating to
+// ISO 6336 or AGMA 2001.
+
+import { GearParams } from './gearParams';
+import { MaterialId } from './materials';
+
+export type LoadMode = 'torque' | 'power';
+
+/**
+ * What the gear transmits. Torque and speed are those of the configured gear;
+ * a rack has no shaft, so for a rack they are its pinion's.
+ */
+export interface LoadParams {
+  mode: LoadMode;
+  torque: number; // N·m
+  power: number; // W
+  rpm: number;
+}
+
+export const DEFAULT_LOAD_PARAMS: LoadParams = { mode: 'torque', torque: 1, power: 100, rpm: 100 };
+
+export interface MaterialStrength {
+  elasticModulus: number; // MPa
+  poissonRatio: number;
+  bendingAllowable: number; // MPa, at the tooth root
+  contactAllowable: number; // MPa, on the flank
+}
+
+// Representative allowables for through-hardened 1045 steel, CZ121 brass,
+// 6061-T6 aluminium, PA6 nylon and printed PLA.
+export const MATERIAL_STRENGTH: Record<MaterialId, MaterialStrength> = {
+  steel: { elasticModulus: 205000, poissonRatio: 0.3, bendingAllowable: 200, contactAllowable: 600 },
+  brass: { elasticModulus: 100000, poissonRatio: 0.34, bendingAllowable: 70, contactAllowable: 250 },
+  aluminium: { elasticModulus: 69000, poissonRatio: 0.33, bendingAllowable: 90, contactAllowable: 250 },
+  nylon: { elasticModulus: 3000, poissonRatio: 0.4, bendingAllowable: 25, contactAllowable: 50 },
+  'pla-white': { elasticModulus: 3500, poissonRatio: 0.36, bendingAllowable: 20, contactAllowable: 40 },
+  'pla-black': { elasticModulus: 3500, poissonRatio: 0.36, bendingAllowable: 20, contactAllowable: 40 },
+  'pla-red': { elasticModulus: 3500, poissonRatio: 0.36, bendingAllowable: 20, contactAllowable: 40 },
+  'pla-blue': { elasticModulus: 3500, poissonRatio: 0.36, bendingAllowable: 20, contactAllowable: 40 },
+  'pla-orange': { elasticModulus: 3500, poissonRatio: 0.36, bendingAllowable: 20, contactAllowable: 40 },
+};
+
+// Below this safety factor a design is flagged as marginal.
+export const MIN_SAFETY_FACTOR = 1.5;
+
+export interface StrengthAnalysis {
+  torque: number; // N·m on the configured gear, or on a rack's pinion
+  tangentialForce: number; // N at the pitch line
+  pitchLineVelocity: number; // m/s
+  dynamicFactor: number;
+  lewisFormFactor: number;
+  bendingStress: number; // MPa
+  contactStress: number; // MPa
+  bendingSafety: number;
+  contactSafety: number;
+  warnings: string[];
+}
+
+// Lewis form factors in module form, Y = a − b/z, fitted to the tables for
+// full-depth teeth at each standard pressure angle.
+const LEWIS_FITS: [number, number, number][] = [
+  [14.5, 0.39, 2.15],
+  [20, 0.484, 2.87],
+  [25, 0.55, 2.98],
+];
+
+const deg = (degrees: number) => degrees * Math.PI / 180;
+
+// The fits hold from 12 teeth up; fewer teeth undercut and fall outside the tables.
+const LEWIS_MIN_TEETH = 12;
+
+// Teeth of an internal gear or rack are wider at the root than any external
+// gear's, so both take the limiting value for infinitely many teeth.
+const lewisFormFactor = (pressureAngle: number, virtualTeeth: number) => {
+  const i = pressureAngle <= LEWIS_FITS[1][0] ? 0 : 1;
+  const [angle0, a0, b0] = LEWIS_FITS[i];
+  const [angle1, a1, b1] = LEWIS_FITS[i + 1];
+  const t = Math.max(0, Math.min(1, (pressureAngle - angle0) / (angle1 - angle0)));
+  const a = a0 + (a1 - a0) * t, b = b0 + (b1 - b0) * t;
+  return a - b / Math.max(virtualTeeth, LEWIS_MIN_TEETH);
+};
+
+/**
+ * Rates the configured gear against its mate. Both are taken to be the same
+ * material and face width, as createMateParams makes them.
+ */
+export const analyzeStrength = (params: GearParams, mate: GearParams, load: LoadParams): StrengthAnalysis => {
+  const { gearType, module, teeth, width, pressureAngle, helixAngle, material } = params;
+  const { elasticModulus, poissonRatio, bendingAllowable, contactAllowable } = MATERIAL_STRENGTH[material];
+  const beta = deg(helixAngle);
+  const alpha = deg(pressureAngle);
+
+  // The pinion is the smaller member, which is the mate unless the configured
+  // gear is an external gear with fewer teeth.
+  const pinionTeeth = gearType === 'external' ? Math.min(teeth, mate.teeth) : mate.teeth;
+  const wheelTeeth = gearType === 'external' ? Math.max(teeth, mate.teeth) : teeth;
+  const pinionDiameter = module * pinionTeeth;
+  // Torque is carried at the configured gear's pitch circle, or the pinion's for a rack.
+  const loadDiameter = gearType === 'rack' ? module * mate.teeth : module * teeth;
+
+  const angularSpeed = load.rpm * 2 * Math.PI / 60;
+  const torque = load.mode === 'torque' ? load.torque : angularSpeed > 0 ? load.power / angularSpeed : 0;
+  const tangentialForce = 2000 * torque / loadDiameter;
+  const pitchLineVelocity = Math.PI * loadDiameter * load.rpm / 60000;
+  // Barth's velocity factor for cut teeth.
+  const dynamicFactor = (6.1 + pitchLineVelocity) / 6.1;
+
+  // A helical tooth is rated as the spur tooth of its normal section.
+  const normalModule = module * Math.cos(beta);
+  const virtualTeeth = gearType === 'external' ? teeth / Math.cos(beta) ** 3 : Infinity;
+  const formFactor = lewisFormFactor(pressureAngle, virtualTeeth);
+  const bendingStress = dynamicFactor * tangentialForce / (width * normalModule * formFactor);
+
+  // Hertzian contact between the flanks at the pitch point.
+  const elasticity = Math.sqrt(1 / (Math.PI * 2 * (1 - poissonRatio ** 2) / elasticModulus));
+  const baseHelix = Math.atan(Math.tan(beta) * Math.cos(alpha));
+  const zone = Math.sqrt(2 * Math.cos(baseHelix) / (Math.cos(alpha) ** 2 * Math.tan(alpha)));
+  // (u ± 1)/u for gear ratio u: the internal mesh's concave flank spreads the load.
+  const ratio = gearType === 'rack' ? Infinity : wheelTeeth / pinionTeeth;
+  const curvature = !Number.isFinite(ratio) ? 1 : gearType === 'internal' ? (ratio - 1) / ratio : (ratio + 1) / ratio;
+  const contactStress = elasticity * zone * Math.sqrt(dynamicFactor * tangentialForce * curvature / (width * pinionDiameter));
+
+  const bendingSafety = bendingStress > 0 ? bendingAllowable / bendingStress : Infinity;
+  const contactSafety = contactStress > 0 ? contactAllowable / contactStress : Infinity;
+
+  const warnings: string[] = [];
+  if (bendingSafety < 1) {
+    warnings.push(`Teeth will break: root bending stress ${bendingStress.toFixed(0)} MPa exceeds the ${bendingAllowable} MPa allowed. Widen the face or raise the module.`);
+  } else if (bendingSafety < MIN_SAFETY_FACTOR) {
+    warnings.push(`Bending safety factor ${bendingSafety.toFixed(2)} is below ${MIN_SAFETY_FACTOR}; the teeth have little margin for shock loads.`);
+  }
+  if (contactSafety < 1) {
+    warnings.push(`Flanks will pit: contact stress ${contactStress.toFixed(0)} MPa exceeds the ${contactAllowable} MPa allowed. Widen the face or enlarge the pinion.`);
+  } else if (contactSafety < MIN_SAFETY_FACTOR) {
+    warnings.push(`Contact safety factor ${contactSafety.toFixed(2)} is below ${MIN_SAFETY_FACTOR}; expect early wear.`);
+  }
+
+  return {
+    torque,
+    tangentialForce,
+    pitchLineVelocity,
+    dynamicFactor,
+    lewisFormFactor: formFactor,
+    bendingStress,
+    contactStress,
+    bendingSafety,
+    contactSafety,
+    warnings,
+  };
+};
@@ -0,0 +1,337 @@
+// Tooth profile generation. Every generator returns a closed 2D outline in the
+// XY plane, wound counter-clockwise, which createGearGeometry extrudes along z.
+
+export type Point2 = [number, number];
+
+export type ToothProfileType = 'involute' | 'simple';
+
+// Standard pressure angles, in degrees.
+export const PRESSURE_ANGLES = [14.5, 20, 25];
+
+export interface InvoluteToothSpec {
+  teeth: number;
+  pitchRadius: number;
+  rootRadius: number;
+  tipRadius: number;
+  pressureAngle: number; // degrees
+  pitchThickness: number; // circular tooth thickness on the pitch circle
+}
+
+// Sample counts per tooth; kept low enough that 40 teeth stay within 16-bit indices.
+const FILLET_SAMPLES = 5;
+const FLANK_SAMPLES = 8;
+const TIP_SAMPLES = 3;
+const ROOT_SAMPLES = 3;
+
+const involute = (phi: number) => Math.tan(phi) - phi;
+
+const polar = (r: number, theta: number): Point2 => [r * Math.cos(theta), r * Math.sin(theta)];
+
+// Solves f(x) = 0 on [lo, hi] where f(lo) < 0 <= f(hi).
+const bisect = (f: (x: number) => number, lo: number, hi: number) => {
+  for (let i = 0; i < 48; i++) {
+    const mid = (lo + hi) / 2;
+    if (f(mid) < 0) lo = mid; else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+/**
+ * One side of a tooth as [radius, angle] pairs, from the bottom of the root
+ * fillet up to the tip. Angles are measured from the tooth centreline.
+ *
+ * The flank is the involute of the base circle. Below it, the root is the
+ * trochoid traced by the tip corner of the generating rack, which is what a
+ * hob or shaper cutter actually leaves behind.
+ */
+const halfToothProfile = (spec: InvoluteToothSpec, fillet: boolean): [number, number][] => {
+  const { teeth, pitchRadius: rp, rootRadius: rf } = spec;
+  const alpha = spec.pressureAngle * Math.PI / 180;
+  const rb = rp * Math.cos(alpha);
+  const halfPitchAngle = Math.PI / teeth;
+  const pitchHalfAngle = spec.pitchThickness / (2 * rp);
+
+  const flankAngle = (r: number) =>
+    pitchHalfAngle + involute(alpha) - involute(Math.acos(Math.min(1, rb / r)));
+
+  // The rack's tip corner sits on the root line, at the edge of the space
+  // that forms this tooth. Rolling the gear by t slides the rack by rp * t;
+  // the corner bottoms out at t0 and climbs the flank as t decreases.
+  const y0 = spec.pitchThickness / 2 + (rp - rf) * Math.tan(alpha);
+  const t0 = -y0 / rp;
+  const filletPoint = (t: number): [number, number] => {
+    const y = y0 + rp * t;
+    const x = rf * Math.cos(t) + y * Math.sin(t);
+    const yr = -rf * Math.sin(t) + y * Math.cos(t);
+    return [Math.hypot(x, yr), Math.atan2(yr, x)];
+  };
+  const filletParam = (r: number) => t0 - Math.sqrt(Math.max(0, r * r - rf * rf)) / rp;
+  const filletAngle = (r: number) => filletPoint(filletParam(r))[1];
+
+  // A tooth that comes to a point before the tip circle is cut off there.
+  let ra = spec.tipRadius;
+  if (ra > rb && flankAngle(ra) < 0) {
+    ra = bisect(r => -flankAngle(r), Math.max(rb, rf), ra);
+  }
+
+  // The fillet hands over to the involute where it stops cutting deeper than the flank.
+  const lo = Math.max(rb, rf);
+  let join: number;
+  if (!fillet) {
+    join = Math.min(lo, ra);
+  } else if (lo >= ra) {
+    join = ra;
+  } else if (filletAngle(lo) >= flankAngle(lo)) {
+    join = lo;
+  } else if (filletAngle(ra) < flankAngle(ra)) {
+    join = ra;
+  } else {
+    join = bisect(r => filletAngle(r) - flankAngle(r), lo, ra);
+  }
+
+  const clampAngle = (theta: number) => Math.min(halfPitchAngle, Math.max(0, theta));
+  const points: [number, number][] = [];
+
+  if (!fillet) {
+    // Without a fillet the flank drops radially from the base circle to the root.
+    if (join > rf) points.push([rf, clampAngle(flankAngle(join))]);
+  } else if (join > rf) {
+    const tJoin = filletParam(join);
+    for (let i = 0; i <= FILLET_SAMPLES; i++) {
+      const [r, theta] = filletPoint(t0 + (tJoin - t0) * i / FILLET_SAMPLES);
+      points.push([r, clampAngle(theta)]);
+    }
+  }
+
+  if (join < ra) {
+    // Sampling evenly in roll angle puts more points where the involute curves most.
+    const rollAt = (r: number) => Math.sqrt(Math.max(0, (r * r) / (rb * rb) - 1));
+    const u0 = rollAt(join), u1 = rollAt(ra);
+    for (let i = 0; i <= FLANK_SAMPLES; i++) {
+      const u = u0 + (u1 - u0) * i / FLANK_SAMPLES;
+      const r = i === 0 ? join : i === FLANK_SAMPLES ? ra : rb * Math.sqrt(1 + u * u);
+      points.push([r, clampAngle(flankAngle(r))]);
+    }
+  } else if (points.length === 0) {
+    points.push([rf, clampAngle(flankAngle(Math.max(rf, rb)))]);
+  }
+
+  // When the cutter undercuts the flank its trochoid loops back on itself;
+  // the tooth can never be wider than it already is lower down.
+  for (let i = 1; i < points.length; i++) {
+    points[i][1] = Math.min(points[i][1], points[i - 1][1]);
+  }
+
+  return points;
+};
+
+// Drops consecutive points that coincide, including the closing pair.
+const dedupe = (outline: Point2[]): Point2[] => {
+  const eps = 1e-9;
+  const result: Point2[] = [];
+  for (const p of outline) {
+    const prev = result[result.length - 1];
+    if (!prev || Math.hypot(p[0] - prev[0], p[1] - prev[1]) > eps) result.push(p);
+  }
+  while (result.length > 1) {
+    const first = result[0], last = result[result.length - 1];
+    if (Math.hypot(first[0] - last[0], first[1] - last[1]) > eps) break;
+    result.pop();
+  }
+  return result;
+};
+
+/**
+ * Mirrors one side of a tooth into a whole tooth and repeats it round the
+ * wheel. `half` runs as [radius, angle] pairs from the root up to the tip,
+ * with angles measured from the tooth centreline; the root and tip circles
+ * are bridged between neighbouring sides.
+ */
+export const wrapTeeth = (half: [number, number][], teeth: number): Point2[] => {
+  const [tipRadius, tipAngle] = half[half.length - 1];
+  const [rootRadius, rootAngle] = half[0];
+  const pitchAngle = (2 * Math.PI) / teeth;
+  const outline: Point2[] = [];
+
+  for (let k = 0; k < teeth; k++) {
+    const c = k * pitchAngle;
+    for (const [r, theta] of half) outline.push(polar(r, c - theta));
+    for (let i = 1; i < TIP_SAMPLES; i++) {
+      outline.push(polar(tipRadius, c - tipAngle + (2 * tipAngle * i) / TIP_SAMPLES));
+    }
+    for (let i = half.length - 1; i >= 0; i--) outline.push(polar(half[i][0], c + half[i][1]));
+    const rootSpan = pitchAngle - 2 * rootAngle;
+    for (let i = 1; i < ROOT_SAMPLES; i++) {
+      outline.push(polar(rootRadius, c + rootAngle + (rootSpan * i) / ROOT_SAMPLES));
+    }
+  }
+
+  return dedupe(outline);
+};
+
+/**
+ * Outline of an external spur gear with involute flanks and, by default,
+ * trochoidal roots. Internal gears reuse it without the fillet to outline
+ * their tooth spaces.
+ */
+export const createInvoluteOutline = (spec: InvoluteToothSpec, fillet = true): Point2[] =>
+  wrapTeeth(halfToothProfile(spec, fillet), spec.teeth);
+
+/** The original blocky profile: each tooth is a trapezoid spanning a quarter step on each side. */
+export const createSimpleOutline = (teeth: number, rootRadius: number, tipRadius: number): Point2[] => {
+  const outline: Point2[] = [];
+  const angleStep = (2 * Math.PI) / (teeth * 4);
+  for (let i = 0; i < teeth * 4; i++) {
+    const r = (i % 4 === 1 || i % 4 === 2) ? tipRadius : rootRadius;
+    outline.push(polar(r, i * angleStep));
+  }
+  return outline;
+};
+
+/** The engineering description of a tooth system. Lengths are in millimetres. */
+export interface ToothSpec {
+  profile: ToothProfileType;
+  module: number;
+  teeth: number;
+  pressureAngle: number; // degrees
+  profileShift: number; // profile shift coefficient, in modules
+  addendum: number; // addendum coefficient, in modules
+  dedendum: number; // dedendum coefficient, in modules
+}
+
+export interface ToothRadii {
+  pitchRadius: number;
+  baseRadius: number;
+  tipRadius: number;
+  rootRadius: number;
+}
+
+/**
+ * Pitch, base, tip and root radii. An internal gear's teeth point inward, so
+ * its tip circle lies inside the pitch circle and its root circle outside.
+ * Its profile shift follows the tooth space: a positive shift moves the
+ * whole profile outward and widens the space.
+ */
+export const getToothRadii = (spec: ToothSpec, internal = false): ToothRadii => {
+  const { module: m, teeth, profileShift: x } = spec;
+  const pitchRadius = (m * teeth) / 2;
+  const baseRadius = pitchRadius * Math.cos(spec.pressureAngle * Math.PI / 180);
+  if (internal) {
+    return {
+      pitchRadius,
+      baseRadius,
+      tipRadius: pitchRadius - (spec.addendum - x) * m,
+      rootRadius: pitchRadius + (spec.dedendum + x) * m,
+    };
+  }
+  return {
+    pitchRadius,
+    baseRadius,
+    tipRadius: pitchRadius + (spec.addendum + x) * m,
+    rootRadius: pitchRadius - (spec.dedendum - x) * m,
+  };
+};
+
+/** Circular tooth thickness on the pitch circle. A positive shift moves the cutter out and thickens the tooth. */
+export const getPitchThickness = (spec: ToothSpec) =>
+  spec.module * (Math.PI / 2 + 2 * spec.profileShift * Math.tan(spec.pressureAngle * Math.PI / 180));
+
+/** Builds the outline of an external gear from its tooth system. */
+export const createToothOutline = (spec: ToothSpec): Point2[] => {
+  const { pitchRadius, tipRadius, rootRadius } = getToothRadii(spec);
+  if (spec.profile === 'simple') {
+    return createSimpleOutline(spec.teeth, rootRadius, tipRadius);
+  }
+  return createInvoluteOutline({
+    teeth: spec.teeth,
+    pitchRadius,
+    rootRadius,
+    tipRadius,
+    pressureAngle: spec.pressureAngle,
+    pitchThickness: getPitchThickness(spec),
+  });
+};
+
+/**
+ * Outline of the tooth spaces of an internal gear. Each space has the shape
+ * of an external tooth, so the outline is an external gear turned inside out:
+ * its "teeth" run from the internal tip circle out to the internal root
+ * circle, with the space width taking the place of the tooth thickness.
+ */
+export const createInternalOutline = (spec: ToothSpec): Point2[] => {
+  const { pitchRadius, tipRadius, rootRadius } = getToothRadii(spec, true);
+  if (spec.profile === 'simple') {
+    return createSimpleOutline(spec.teeth, tipRadius, rootRadius);
+  }
+  return createInvoluteOutline({
+    teeth: spec.teeth,
+    pitchRadius,
+    rootRadius: tipRadius,
+    tipRadius: rootRadius,
+    pressureAngle: spec.pressureAngle,
+    pitchThickness: getPitchThickness(spec),
+  }, false);
+};
+
+/**
+ * Top edge of a straight rack of the given length, centred on x = 0 with a
+ * tooth centred there and the pitch line on y = 0. A rack's involute is a
+ * straight flank, so the profile type makes no difference, and a rack has no
+ * profile shift of its own. The edge runs from right to left, counter-clockwise
+ * around the rack body below it.
+ */
+export const createRackOutline = (spec: ToothSpec, length: number): Point2[] => {
+  const m = spec.module;
+  const pitch = Math.PI * m;
+  const tan = Math.tan(spec.pressureAngle * Math.PI / 180);
+  const addendum = spec.addendum * m, dedendum = spec.dedendum * m;
+  const tipHalf = Math.max(0, pitch / 4 - addendum * tan);
+  const rootHalf = Math.min(pitch / 2, pitch / 4 + dedendum * tan);
+
+  const half = length / 2;
+  const first = Math.floor(-half / pitch) - 1, last = Math.ceil(half / pitch) + 1;
+  const edge: Point2[] = [];
+  for (let k = first; k <= last; k++) {
+    const c = k * pitch;
+    edge.push([c - rootHalf, -dedendum], [c - tipHalf, addendum], [c + tipHalf, addendum], [c + rootHalf, -dedendum]);
+  }
+
+  // Cut the edge to length, interpolating where it crosses the ends.
+  const heightAt = (x: number) => {
+    for (let i = 0; i < edge.length - 1; i++) {
+      const [x1, y1] = edge[i], [x2, y2] = edge[i + 1];
+      if (x >= x1 && x <= x2) return x2 > x1 ? y1 + (y2 - y1) * (x - x1) / (x2 - x1) : Math.max(y1, y2);
+    }
+    return -dedendum;
+  };
+  const inside = edge.filter(([x]) => x > -half && x < half);
+  const clipped: Point2[] = [[-half, heightAt(-half)], ...inside, [half, heightAt(half)]];
+  return dedupe(clipped).reverse();
+};
+
+/**
+ * Heel outline of a straight bevel gear, seen along its axis. By Tredgold's
+ * approximation the teeth on the back cone are those of a spur gear of the
+ * back cone's radius, r / cos δ; rolling that gear's outline onto the cone
+ * keeps arc lengths on the pitch circle and foreshortens tooth heights by
+ * cos δ.
+ */
+export const createBevelOutline = (spec: ToothSpec, pitchAngle: number): Point2[] => {
+  const cos = Math.cos(pitchAngle * Math.PI / 180);
+  const { pitchRadius } = getToothRadii(spec);
+  const virtual = { ...spec, teeth: spec.teeth / cos };
+  const radii = getToothRadii(virtual);
+  const onCone = (rho: number) => pitchRadius + (rho - radii.pitchRadius) * cos;
+  if (spec.profile === 'simple') {
+    return createSimpleOutline(spec.teeth, onCone(radii.rootRadius), onCone(radii.tipRadius));
+  }
+  const half = halfToothProfile({
+    teeth: virtual.teeth,
+    pitchRadius: radii.pitchRadius,
+    rootRadius: radii.rootRadius,
+    tipRadius: radii.tipRadius,
+    pressureAngle: spec.pressureAngle,
+    pitchThickness: getPitchThickness(spec),
+  }, true);
+  return wrapTeeth(half.map(([rho, theta]): [number, number] => [onCone(rho), theta / cos]), spec.teeth);
+};
@@ -0,0 +1,164 @@
+// Worm drives: a threaded worm turning a throated worm wheel on a shaft at
+// right angles to it. The worm is the driver; its threads act as a rack in
+// the wheel's mid-plane, so the wheel is cut with the worm's axial module and
+// takes the worm's lead angle as its helix angle.
+
+import { GearParams } from './gearParams';
+import { Tilt } from './geometry';
+import { MaterialId } from './materials';
+import { getToothRadii } from './toothProfile';
+
+export interface WormParams {
+  starts: number;
+  leadAngle: number; // degrees, on the worm's pitch cylinder; the worm is right hand
+  module: number; // axial module of the worm, and the wheel's transverse module
+  length: number; // threaded length of the worm
+  wheelTeeth: number;
+  wheelWidth: number;
+}
+
+export const DEFAULT_WORM_PARAMS: WormParams = {
+  starts: 1,
+  leadAngle: 5,
+  module: 2,
+  length: 40,
+  wheelTeeth: 30,
+  wheelWidth: 12,
+};
+
+// Worms are cut from steel whatever the wheel is made of.
+export const WORM_MATERIAL: MaterialId = 'steel';
+
+// Sliding friction of a lubricated steel worm on a bronze or plastic wheel.
+export const WORM_FRICTION = 0.05;
+
+// Swings the worm's own axis from z round to x.
+const WORM_TILT: Tilt = { axis: [0, 1, 0], angle: Math.PI / 2 };
+
+// The wheel's faces stop short of where its throat would meet the worm's axis plane.
+const MAX_THROAT_FRACTION = 0.8;
+
+/** The worm's thread, in its own frame: the axis is z and the thread is centred on z = 0. */
+export interface WormSpec {
+  starts: number;
+  module: number;
+  pitchRadius: number;
+  lead: number; // axial advance of one thread per turn
+  length: number;
+  pressureAngle: number; // degrees, in the axial plane
+  addendum: number; // coefficients, in modules
+  dedendum: number;
+  boreRadius: number;
+}
+
+/** The wheel: a helical gear whose tips and roots curve round the worm. */
+export interface WormWheelSpec {
+  params: GearParams;
+  centerDistance: number;
+}
+
+export interface WormAnalysis {
+  worm: WormSpec;
+  wheel: WormWheelSpec;
+  ratio: number; // worm turns per wheel turn
+  centerDistance: number;
+  wormPitchDiameter: number;
+  wheelPitchDiameter: number;
+  efficiency: number; // worm driving the wheel
+  selfLocking: boolean; // the wheel cannot drive the worm
+  wormPosition: [number, number, number];
+  wormTilt: Tilt;
+  wormPhase: number;
+  wheelPhase: number;
+  wheelSpeed: number; // turns per turn of the worm
+  warnings: string[];
+}
+
+/**
+ * Sizes a worm and its wheel, cut with the pressure angle, tooth proportions
+ * and hub of `base`. The wheel is placed on the axis and the worm beside it
+ * at y = −centerDistance, with its axis along x.
+ */
+export const analyzeWorm = (base: GearParams, params: WormParams): WormAnalysis => {
+  const warnings: string[] = [];
+  const starts = Math.round(params.starts);
+  const zw = Math.round(params.wheelTeeth);
+  const m = params.module;
+  const gamma = params.leadAngle * Math.PI / 180;
+
+  // The lead angle sets how fat the worm is: tan γ = lead / (π d).
+  const lead = Math.PI * m * starts;
+  const wormPitchRadius = lead / (2 * Math.PI * Math.tan(gamma));
+  const wormRoot = wormPitchRadius - base.dedendum * m;
+  if (wormRoot <= 0) {
+    warnings.push('The worm is too slender for its thread; lower the lead angle or the number of starts.');
+  }
+  const worm: WormSpec = {
+    starts,
+    module: m,
+    pitchRadius: wormPitchRadius,
+    lead,
+    length: params.length,
+    pressureAngle: base.pressureAngle,
+    addendum: base.addendum,
+    dedendum: base.dedendum,
+    boreRadius: Math.min(base.innerRadius, Math.max(0, wormRoot) * 0.5),
+  };
+
+  // The throat wraps round the worm, so the wheel can be no wider than the worm's core.
+  const throatRadius = wormPitchRadius - base.addendum * m;
+  const maxWidth = 2 * MAX_THROAT_FRACTION * Math.max(0, throatRadius);
+  if (params.wheelWidth > maxWidth) {
+    warnings.push(`The wheel is cut back to ${maxWidth.toFixed(1)} mm wide, where its throat would wrap past the worm.`);
+  }
+  const wheelParams: GearParams = {
+    ...base,
+    gearType: 'external',
+    profile: 'involute',
+    teeth: zw,
+    module: m,
+    profileShift: 0,
+    helixAngle: params.leadAngle,
+    herringbone: false,
+    width: Math.min(params.wheelWidth, maxWidth),
+  };
+  const wheelPitchRadius = getToothRadii(wheelParams).pitchRadius;
+  const centerDistance = wormPitchRadius + wheelPitchRadius;
+
+  // The threads' axial section is a rack, which undercuts the wheel like any other.
+  const alpha = base.pressureAngle * Math.PI / 180;
+  const minTeeth = Math.ceil(2 * base.addendum / Math.sin(alpha) ** 2 - 1e-9);
+  if (zw < minTeeth) {
+    warnings.push(`A wheel with fewer than ${minTeeth} teeth at ${base.pressureAngle}° is undercut.`);
+  }
+
+  // Friction acts along the thread's normal, whose pressure angle the lead tilts.
+  const normalAlpha = Math.atan(Math.tan(alpha) * Math.cos(gamma));
+  const frictionAngle = Math.atan(WORM_FRICTION / Math.cos(normalAlpha));
+  const efficiency = Math.tan(gamma) / Math.tan(gamma + frictionAngle);
+  const selfLocking = gamma <= frictionAngle;
+
+  // Turning the worm by ψ moves its threads along x by −ψ·lead/2π, which turns
+  // the wheel's pitch point at −y by the same distance. At rest the thread on
+  // the wheel's side of the worm sits at x = lead/4, half a pitch from the
+  // tooth space the wheel's tooth has to face.
+  const wheelSpeed = -starts / zw;
+  const wheelPhase = -Math.PI / 2 + (lead / 4 + Math.PI * m / 2) / wheelPitchRadius;
+
+  return {
+    worm,
+    wheel: { params: wheelParams, centerDistance },
+    ratio: zw / starts,
+    centerDistance,
+    wormPitchDiameter: 2 * wormPitchRadius,
+    wheelPitchDiameter: 2 * wheelPitchRadius,
+    efficiency,
+    selfLocking,
+    wormPosition: [0, -centerDistance, 0],
+    wormTilt: WORM_TILT,
+    wormPhase: 0,
+    wheelPhase,
+    wheelSpeed,
+    warnings,
+  };
+};